@@ -6,15 +6,56 @@
  * Storage layout (chrome.storage.local):
  *   cachedAssignments : AssignmentInput[]   — assignment metadata
  *   aiEstimateResults : AIEstimateResult[]  — estimates keyed by assignmentID
+ *   estimateCache     : Record<hash, CachedEstimate> — AI estimates keyed by a hash of their inputs
+ *   pdfPageCounts     : Record<string, number | null> — PDF reading lengths by "<fileId>:<updated_at>"
+ *   pageWordCounts    : Record<string, number>        — Page reading lengths by "<courseId>:<pageUrl>:<updated_at>"
+ *   lastChangeSet     : AssignmentChangeSet — what the last refresh added / moved / edited / removed
+ *   lastRefreshStatus : RefreshStatus       — success or typed Canvas errors from the last refresh
  *   lastUpdated       : number              — epoch ms of last successful refresh
+ *   syllabusTasks     : AssignmentInput[]   — syllabus deadlines the student accepted as tasks
+ *   announcementAlerts: AssignmentAlert[]   — recent announcements that mention a tracked assignment
  */
 
 import { CanvasAPI } from '../services/canvas-api';
+import { CanvasAuthService, migrateClientSecrets } from '../services/canvas-auth';
+import { createCanvasAPI, getCanvasProfiles } from '../services/canvas-profiles';
 import { TimeEstimator } from '../services/time-estimator';
 import { licensingService } from '../services/licensing';
 import { analyticsService } from '../services/analytics';
 import { calendarService } from '../services/calendar';
-import type { Assignment, AssignmentInput, AIEstimateResult } from '../types';
+import { CHANGE_SET_KEY, diffAssignments, hasChanges } from '../services/sync-engine';
+import { CanvasError, toCanvasError } from '../services/canvas-errors';
+import { applyCourseSettings, getCourseSettings } from '../services/course-settings';
+import {
+  SYLLABUS_TASKS_KEY,
+  extractSyllabusItems,
+  getTasksInWindow,
+  type SyllabusItem,
+} from '../services/syllabus-parser';
+import {
+  ANNOUNCEMENT_ALERTS_KEY,
+  ANNOUNCEMENT_LOOKBACK_DAYS,
+  detectAnnouncementAlerts,
+} from '../services/announcement-watcher';
+import { isAssignmentComplete } from '../utils/assignment-status';
+import { compareByDeadline, getDeadline } from '../utils/assignment-dates';
+import { getCourseLabel } from '../utils/course-display';
+import type {
+  Assignment,
+  AssignmentAlert,
+  AssignmentChangeSet,
+  AssignmentInput,
+  AssignmentType,
+  AIEstimateResult,
+  CanvasProfile,
+  CourseSettings,
+  CourseSummary,
+  DiscussionDetails,
+  QuizDetails,
+  RefreshStatus,
+  RubricCriterion,
+  SubmissionState,
+} from '../types';
 
 // Constants
 const REFRESH_ALARM = 'refresh-assignments';
@@ -44,6 +85,11 @@ chrome.runtime.onInstalled.addListener(async (details) => {
 
     await licensingService.startTrial();
   }
+
+  if (details.reason === 'update') {
+    await migrateClientSecrets();
+    await migrateProfileIds();
+  }
 });
 
 /**
@@ -62,16 +108,29 @@ chrome.alarms.onAlarm.addListener(async (alarm) => {
  * is a private interface in canvas-api.ts, so we match it structurally).
  */
 interface CanvasNormalized {
-  id: number;
+  id: number | string;
   title: string;
-  type: string;
+  type: AssignmentType;
   dueDate: string | null;
+  unlockAt: string | null;
+  lockAt: string | null;
   courseName: string;
+  courseNickname: string | null;
+  courseColor: string | null;
   courseId: number;
   pointsPossible: number | null;
   htmlUrl: string;
   submissionTypes: string[];
   description: string;
+  submission: SubmissionState | null;
+  rubric: RubricCriterion[] | null;
+  gradeImpact: number | null;
+  readingWords: number | null;
+  readingPages: number | null;
+  quiz: QuizDetails | null;
+  discussion: DiscussionDetails | null;
+  markedComplete: boolean;
+  dismissed: boolean;
 }
 
 /**
@@ -83,12 +142,25 @@ function toAssignmentInput(a: CanvasNormalized): AssignmentInput {
     title: a.title,
     type: a.type,
     courseName: a.courseName,
+    courseNickname: a.courseNickname ?? undefined,
+    courseColor: a.courseColor ?? undefined,
     courseId: a.courseId,
     dueDate: a.dueDate ?? '',
+    unlockAt: a.unlockAt ?? undefined,
+    lockAt: a.lockAt ?? undefined,
     htmlUrl: a.htmlUrl,
     pointsPossible: a.pointsPossible ?? undefined,
     submissionTypes: a.submissionTypes,
     description: a.description,
+    submission: a.submission ?? undefined,
+    rubric: a.rubric ?? undefined,
+    gradeImpact: a.gradeImpact ?? undefined,
+    readingWords: a.readingWords ?? undefined,
+    readingPages: a.readingPages ?? undefined,
+    quiz: a.quiz ?? undefined,
+    discussion: a.discussion ?? undefined,
+    markedComplete: a.markedComplete,
+    dismissed: a.dismissed,
   };
 }
 
@@ -99,6 +171,7 @@ function toAssignmentInput(a: CanvasNormalized): AssignmentInput {
 function mergeToAssignments(
   inputs: AssignmentInput[],
   estimates: AIEstimateResult[],
+  alerts: AssignmentAlert[] = [],
 ): Assignment[] {
   const estimateMap = new Map(estimates.map(e => [e.assignmentID, e]));
 
@@ -110,79 +183,303 @@ function mergeToAssignments(
       type: input.type as Assignment['type'],
       courseName: input.courseName,
       courseId: input.courseId,
+      courseNickname: input.courseNickname,
+      courseColor: input.courseColor,
       dueDate: input.dueDate,
+      unlockAt: input.unlockAt ?? null,
+      lockAt: input.lockAt ?? null,
       htmlUrl: input.htmlUrl,
       description: input.description || '',
       pointsPossible: input.pointsPossible || 0,
       submissionTypes: input.submissionTypes || [],
       estimatedMinutes: estimate?.minutes ?? null,
-      estimationConfidence: null,
+      estimateBreakdown: estimate?.breakdown,
+      estimateRange: estimate?.range ?? null,
+      estimationConfidence: estimate?.confidence ?? null,
+      submission: input.submission ?? null,
+      markedComplete: input.markedComplete === true,
+      gradeImpact: input.gradeImpact ?? null,
+      readingWords: input.readingWords,
+      readingPages: input.readingPages,
+      alerts: alerts.filter(alert => alert.assignmentID === input.assignmentID),
+      source: input.source,
+      sourceName: input.sourceName,
     };
   });
 }
 
 /**
- * Refresh assignments in the background.
- * Writes cachedAssignments and aiEstimateResults to chrome.storage.local.
+ * Fetch upcoming work from every Canvas profile, each through its own CanvasAPI
+ * client, and tag each item with the profile it came from. Courses the student
+ * excluded in Options are skipped; nicknames, colors and workload multipliers
+ * from their course settings are applied to the rest. Syllabus deadlines the
+ * student accepted are merged in when they fall inside the window, and recent
+ * announcements are checked for mentions of any of these items. A failing
+ * institution, including one whose token or sign-in is missing, is logged and
+ * reported in `errors`; the caller treats the refresh as failed only if every
+ * attempted profile failed. Profiles without a Canvas URL aren't set up yet
+ * and are skipped.
+ */
+async function fetchFromAllProfiles(daysAhead: number): Promise<{
+  assignments: AssignmentInput[];
+  alerts: AssignmentAlert[];
+  errors: RefreshStatus['errors'];
+  attempted: number;
+}> {
+  const profiles = await getCanvasProfiles();
+  const { courseSettings } = await chrome.storage.sync.get(['courseSettings']);
+  const settingsFor = (profile: CanvasProfile, courseId: number): CourseSettings =>
+    getCourseSettings(courseSettings, profile.id, courseId);
+
+  // Syllabus tasks already carry their profile tag and namespaced id
+  const stored = await chrome.storage.local.get([SYLLABUS_TASKS_KEY]);
+  const syllabusTasks = getTasksInWindow(stored[SYLLABUS_TASKS_KEY] || [], daysAhead)
+    .map(task => ({ task, settings: getCourseSettings(courseSettings, task.source || '', task.courseId) }))
+    .filter(({ settings }) => settings.included)
+    .map(({ task, settings }) => applyCourseSettings(task, settings));
+
+  const results: AssignmentInput[] = [];
+  const alerts: AssignmentAlert[] = [];
+  const errors: RefreshStatus['errors'] = [];
+  let attempted = 0;
+
+  for (const profile of profiles) {
+    if (!profile.canvasUrl) continue;
+    attempted++;
+
+    const canvasAPI = await createCanvasAPI(profile);
+    if (!canvasAPI) {
+      const canvasError = getMissingCredentialsError(profile);
+      errors.push({
+        kind: canvasError.kind,
+        message: canvasError.message,
+        profileId: profile.id,
+        profileName: profile.name,
+      });
+      continue;
+    }
+
+    try {
+      const rawAssignments = await canvasAPI.getAssignmentsDueWithinDays(
+        daysAhead,
+        courseId => settingsFor(profile, courseId).included,
+      );
+      const tagged = rawAssignments.map(a => tagWithProfile(
+        applyCourseSettings(toAssignmentInput(a), settingsFor(profile, a.courseId)),
+        profile,
+      ));
+      results.push(...tagged);
+      alerts.push(...await watchAnnouncements(
+        canvasAPI,
+        [...tagged, ...syllabusTasks.filter(task => task.source === profile.id)],
+      ));
+    } catch (error) {
+      console.warn(`[ServiceWorker] Refresh failed for Canvas profile "${profile.name}":`, error);
+      const canvasError = toCanvasError(error);
+      errors.push({
+        kind: canvasError.kind,
+        message: canvasError.message,
+        profileId: profile.id,
+        profileName: profile.name,
+      });
+    }
+  }
+
+  results.push(...syllabusTasks);
+
+  return { assignments: results.sort(compareByDeadline), alerts, errors, attempted };
+}
+
+/**
+ * The error for a profile that has a Canvas URL but no usable credentials:
+ * no pasted token, or an OAuth session that was never created or was dropped
+ * after Canvas rejected its refresh token.
  */
-async function refreshAssignmentsInBackground() {
+function getMissingCredentialsError(profile: CanvasProfile): CanvasError {
+  return profile.authMethod === 'oauth'
+    ? new CanvasError('auth', 'Not signed in to Canvas. Please sign in again from the settings page.')
+    : new CanvasError('auth', 'No Canvas access token saved. Please add one in the settings page.');
+}
+
+/**
+ * Check one profile's recent announcements for mentions of its items.
+ * Alerts are a bonus, so a failure here is logged and yields none.
+ */
+async function watchAnnouncements(canvasAPI: CanvasAPI, items: AssignmentInput[]): Promise<AssignmentAlert[]> {
+  const courseIds = Array.from(new Set(items.map(item => item.courseId).filter(id => id > 0)));
+  if (courseIds.length === 0) return [];
+
   try {
-    const settings = await chrome.storage.sync.get(['canvasUrl', 'apiToken', 'lookaheadDays']);
+    const announcements = await canvasAPI.getAnnouncements(courseIds, ANNOUNCEMENT_LOOKBACK_DAYS);
+    return detectAnnouncementAlerts(announcements, items);
+  } catch (error) {
+    console.warn('[ServiceWorker] Could not check announcements:', error);
+    return [];
+  }
+}
 
-    if (!settings.canvasUrl || !settings.apiToken) {
-      return;
+/**
+ * Record which profile an item came from. Ids are namespaced by the profile's
+ * stable id so two institutions can't produce the same key, and reordering
+ * or re-saving profiles never changes them.
+ */
+function tagWithProfile<T extends AssignmentInput>(input: T, profile: CanvasProfile): T {
+  return {
+    ...input,
+    assignmentID: `${profile.id}:${input.assignmentID}`,
+    source: profile.id,
+    sourceName: profile.name,
+  };
+}
+
+/**
+ * One-time rewrite of ids stored before every profile was namespaced, when
+ * the first profile's items (including the legacy "default" profile's) kept
+ * their bare Canvas ids. Without it the next refresh would report all of
+ * them as removed and re-added.
+ */
+async function migrateProfileIds(): Promise<void> {
+  const stored = await chrome.storage.local.get([
+    'cachedAssignments',
+    'aiEstimateResults',
+    CHANGE_SET_KEY,
+    ANNOUNCEMENT_ALERTS_KEY,
+    SYLLABUS_TASKS_KEY,
+  ]);
+  const inputs: AssignmentInput[] = [...(stored.cachedAssignments || []), ...(stored[SYLLABUS_TASKS_KEY] || [])];
+
+  const renamed = new Map<number | string, string>();
+  for (const input of inputs) {
+    if (input.source && !String(input.assignmentID).startsWith(`${input.source}:`)) {
+      renamed.set(input.assignmentID, `${input.source}:${input.assignmentID}`);
     }
+  }
+  if (renamed.size === 0) return;
+
+  const rename = <T extends { assignmentID: number | string }>(item: T): T =>
+    ({ ...item, assignmentID: renamed.get(item.assignmentID) ?? item.assignmentID });
+  const renameId = (id: number | string) => renamed.get(id) ?? id;
+  const changeSet: AssignmentChangeSet | undefined = stored[CHANGE_SET_KEY];
+
+  await chrome.storage.local.set({
+    cachedAssignments: (stored.cachedAssignments || []).map(rename),
+    aiEstimateResults: (stored.aiEstimateResults || []).map(rename),
+    [ANNOUNCEMENT_ALERTS_KEY]: (stored[ANNOUNCEMENT_ALERTS_KEY] || []).map(rename),
+    [SYLLABUS_TASKS_KEY]: (stored[SYLLABUS_TASKS_KEY] || []).map(rename),
+    ...(changeSet && {
+      [CHANGE_SET_KEY]: {
+        ...changeSet,
+        added: changeSet.added.map(renameId),
+        removed: changeSet.removed.map(rename),
+        dueDateMoved: changeSet.dueDateMoved.map(rename),
+        descriptionEdited: changeSet.descriptionEdited.map(renameId),
+      },
+    }),
+  });
+}
 
-    const canvasAPI = new CanvasAPI();
-    canvasAPI.configure(settings.canvasUrl, settings.apiToken);
+/**
+ * Refresh assignments in the background.
+ * Writes cachedAssignments, aiEstimateResults, lastChangeSet and
+ * lastRefreshStatus to chrome.storage.local. Only new or edited items are
+ * sent to the AI provider; the rest come from the estimate cache. When every Canvas
+ * profile fails the cache is left untouched and only the status is written;
+ * when some do, their previously cached items are kept.
+ * Completed work (submitted or excused) is never estimated and never
+ * counted toward totals; it is dropped entirely when `hideCompleted` is set.
+ */
+async function refreshAssignmentsInBackground(): Promise<RefreshStatus | null> {
+  try {
+    const settings = await chrome.storage.sync.get(['lookaheadDays', 'hideCompleted']);
+
+    const profiles = await getCanvasProfiles();
+    if (profiles.length === 0) {
+      return null;
+    }
 
     const maxLookahead = await licensingService.getMaxLookaheadDays();
     const daysAhead = Math.min(settings.lookaheadDays || 14, maxLookahead);
-    const rawAssignments = await canvasAPI.getAssignmentsDueWithinDays(daysAhead);
 
-    // Convert to the lean AssignmentInput shape
-    const inputAssignments: AssignmentInput[] = rawAssignments.map(toAssignmentInput);
+    const fetchResult = await fetchFromAllProfiles(daysAhead);
+    const { errors, attempted } = fetchResult;
+    if (attempted > 0 && errors.length === attempted) {
+      return await saveRefreshStatus({ at: Date.now(), ok: false, errors });
+    }
+    const previous = await chrome.storage.local.get(['cachedAssignments', ANNOUNCEMENT_ALERTS_KEY]);
+
+    // A profile that failed keeps what it had, so its work isn't reported as removed
+    const failedProfiles = new Set(errors.map(e => e.profileId));
+    const fetchedIds = new Set(fetchResult.assignments.map(a => a.assignmentID));
+    const kept = ((previous.cachedAssignments || []) as AssignmentInput[])
+      .filter(a => a.source && failedProfiles.has(a.source) && !fetchedIds.has(a.assignmentID));
+    const keptIds = new Set(kept.map(a => a.assignmentID));
+    const fetched = [...fetchResult.assignments, ...kept].sort(compareByDeadline);
+    const alerts = [
+      ...fetchResult.alerts,
+      ...((previous[ANNOUNCEMENT_ALERTS_KEY] || []) as AssignmentAlert[]).filter(alert => keptIds.has(alert.assignmentID)),
+    ];
+
+    const changeSet = diffAssignments(previous.cachedAssignments, fetched);
+
+    // Items dismissed in the Canvas planner are dropped
+    let inputAssignments = fetched.filter(a => !a.dismissed);
+    if (settings.hideCompleted) {
+      inputAssignments = inputAssignments.filter(a => !isAssignmentComplete(a));
+    }
+    const openAssignments = inputAssignments.filter(a => !isAssignmentComplete(a));
 
+    // Unchanged assignments come back from the estimate cache; a free-tier
+    // refresh is only spent when the provider actually estimated something
     const canUseAI = await licensingService.canUseAIRefresh();
     const timeEstimator = new TimeEstimator();
-
-    let aiEstimateResults: AIEstimateResult[];
-
-    if (canUseAI) {
-      aiEstimateResults = await timeEstimator.estimateAll(inputAssignments);
-      const aiSettings = await chrome.storage.sync.get(['aiProvider']);
-      if (aiSettings.aiProvider && aiSettings.aiProvider !== 'none') {
-        await licensingService.incrementAIRefreshCount();
-      }
-    } else {
-      // Free tier exhausted — heuristics only
-      aiEstimateResults = inputAssignments.map(a => ({
-        assignmentID: a.assignmentID,
-        minutes: timeEstimator.getHeuristicEstimate(a),
-      }));
+    const { results: aiEstimateResults, aiEstimated } = await timeEstimator.estimateAll(openAssignments, { useAI: canUseAI });
+    if (aiEstimated > 0) {
+      await licensingService.incrementAIRefreshCount();
     }
 
     // Persist the split cache
     await chrome.storage.local.set({
       cachedAssignments: inputAssignments,
       aiEstimateResults,
+      [CHANGE_SET_KEY]: changeSet,
+      [ANNOUNCEMENT_ALERTS_KEY]: alerts,
       lastUpdated: Date.now(),
     });
 
-    // Analytics only needs courseName + estimatedMinutes
+    // Analytics only needs the course label + color + source + estimatedMinutes
     const analyticsInput = aiEstimateResults.map(e => {
       const input = inputAssignments.find(a => a.assignmentID === e.assignmentID);
-      return { courseName: input?.courseName, estimatedMinutes: e.minutes };
+      return {
+        courseName: input && getCourseLabel(input),
+        color: input?.courseColor,
+        source: input?.sourceName,
+        estimatedMinutes: e.minutes,
+      };
     });
-    await analyticsService.recordSnapshot(analyticsInput);
-    await checkForUrgentAssignments(inputAssignments);
+    await analyticsService.recordSnapshot(analyticsInput, changeSet);
+    await checkForUrgentAssignments(openAssignments);
+    await notifyChanges(changeSet, inputAssignments);
+
+    return await saveRefreshStatus({ at: Date.now(), ok: true, errors });
   } catch (error) {
     console.error('Background refresh failed:', error);
+    const canvasError = toCanvasError(error);
+    return await saveRefreshStatus({
+      at: Date.now(),
+      ok: false,
+      errors: [{ kind: canvasError.kind, message: canvasError.message }],
+    });
   }
 }
 
+async function saveRefreshStatus(status: RefreshStatus): Promise<RefreshStatus> {
+  await chrome.storage.local.set({ lastRefreshStatus: status });
+  return status;
+}
+
 /**
- * Check for urgent assignments and send notifications
+ * Check for urgent assignments and send notifications.
+ * Callers pass only open (not yet completed) assignments.
  */
 async function checkForUrgentAssignments(assignments: AssignmentInput[]) {
   const settings = await chrome.storage.sync.get(['showNotifications']);
@@ -191,10 +488,11 @@ async function checkForUrgentAssignments(assignments: AssignmentInput[]) {
   const now = new Date();
   const twentyFourHours = 24 * 60 * 60 * 1000;
 
+  // Undated work that locks within the window is just as urgent
   const urgent = assignments.filter(a => {
-    if (!a.dueDate) return false;
-    const dueDate = new Date(a.dueDate);
-    return dueDate.getTime() - now.getTime() < twentyFourHours && dueDate > now;
+    const deadline = getDeadline(a);
+    if (!deadline) return false;
+    return deadline.getTime() - now.getTime() < twentyFourHours && deadline > now;
   });
 
   if (urgent.length > 0) {
@@ -208,6 +506,39 @@ async function checkForUrgentAssignments(assignments: AssignmentInput[]) {
   }
 }
 
+/**
+ * Tell the student about new work and moved due dates since the last refresh.
+ * Description edits and removals are only surfaced in the sidebar.
+ */
+async function notifyChanges(changeSet: AssignmentChangeSet, assignments: AssignmentInput[]) {
+  const settings = await chrome.storage.sync.get(['showNotifications']);
+  if (!settings.showNotifications || !hasChanges(changeSet)) return;
+
+  const moved = changeSet.dueDateMoved
+    .map(change => assignments.find(a => a.assignmentID === change.assignmentID))
+    .filter((a): a is AssignmentInput => !!a);
+
+  const parts: string[] = [];
+  if (changeSet.added.length > 0) {
+    parts.push(`${changeSet.added.length} new assignment(s)`);
+  }
+  if (moved.length === 1) {
+    const dueDate = moved[0].dueDate ? new Date(moved[0].dueDate).toLocaleString() : 'no due date';
+    parts.push(`"${moved[0].title}" is now due ${dueDate}`);
+  } else if (moved.length > 1) {
+    parts.push(`${moved.length} due dates moved`);
+  }
+  if (parts.length === 0) return;
+
+  chrome.notifications.create({
+    type: 'basic',
+    iconUrl: '../assets/icons/icon128.png',
+    title: 'Canvas Assignments Updated',
+    message: parts.join(' · '),
+    priority: 1,
+  });
+}
+
 /**
  * Handle messages from popup and content scripts
  */
@@ -227,6 +558,11 @@ async function handleMessage(
     token?: string;
     daysAhead?: number;
     subscriptionId?: string;
+    profile?: CanvasProfile;
+    profileId?: string;
+    items?: SyllabusItem[];
+    assignmentID?: number | string;
+    pessimistic?: boolean;
   },
   _sender: chrome.runtime.MessageSender,
 ) {
@@ -238,16 +574,25 @@ async function handleMessage(
     case 'GET_ASSIGNMENTS':
       return await getAssignments();
 
-    case 'REFRESH_ASSIGNMENTS':
-      await refreshAssignmentsInBackground();
-      return { success: true };
+    case 'REFRESH_ASSIGNMENTS': {
+      const status = await refreshAssignmentsInBackground();
+      return { success: status?.ok !== false, status };
+    }
 
     case 'GET_CACHED_ASSIGNMENTS': {
-      const stored = await chrome.storage.local.get(['cachedAssignments', 'aiEstimateResults', 'lastUpdated']);
+      const stored = await chrome.storage.local.get([
+        'cachedAssignments',
+        'aiEstimateResults',
+        'lastChangeSet',
+        ANNOUNCEMENT_ALERTS_KEY,
+        'lastUpdated',
+      ]);
       // Return both raw arrays AND a merged array for any consumer that needs it
       return {
         cachedAssignments: stored.cachedAssignments || [],
         aiEstimateResults: stored.aiEstimateResults || [],
+        changeSet: stored.lastChangeSet || null,
+        announcementAlerts: stored[ANNOUNCEMENT_ALERTS_KEY] || [],
         lastUpdated: stored.lastUpdated,
       };
     }
@@ -272,7 +617,13 @@ async function handleMessage(
           submissionTypes: message.assignment.submissionTypes,
           description: message.assignment.description,
         };
-        const result = await estimator.estimateSingle(input);
+        // Opening assignment pages spends free-tier AI refreshes like a
+        // refresh does; once they're used up the badge shows the heuristic
+        const canUseAI = await licensingService.canUseAIRefresh();
+        const { results: [result], aiEstimated } = await estimator.estimateAll([input], { useAI: canUseAI });
+        if (aiEstimated > 0) {
+          await licensingService.incrementAIRefreshCount();
+        }
         // Expose estimatedMinutes for backward-compat with the badge content-script
         return { ...result, estimatedMinutes: result.minutes };
       }
@@ -284,6 +635,51 @@ async function handleMessage(
       }
       return { success: false, error: 'Missing URL or token' };
 
+    case 'CANVAS_OAUTH_SIGN_IN':
+      if (message.profile?.canvasUrl && message.profile.clientId) {
+        return await signInWithCanvas(message.profile);
+      }
+      return { success: false, error: 'Missing Canvas URL or client ID' };
+
+    case 'CANVAS_OAUTH_SIGN_OUT':
+      if (message.profileId) {
+        await new CanvasAuthService(message.profileId).signOut();
+      }
+      return { success: true };
+
+    case 'GET_COURSES':
+      return await getCoursesFromAllProfiles();
+
+    case 'SCAN_SYLLABI':
+      return await scanSyllabi();
+
+    case 'ACCEPT_SYLLABUS_ITEMS':
+      return await acceptSyllabusItems(message.items || []);
+
+    case 'GET_SYLLABUS_TASKS': {
+      const stored = await chrome.storage.local.get([SYLLABUS_TASKS_KEY]);
+      return { tasks: stored[SYLLABUS_TASKS_KEY] || [] };
+    }
+
+    case 'REMOVE_SYLLABUS_TASK': {
+      const stored = await chrome.storage.local.get([SYLLABUS_TASKS_KEY]);
+      const tasks = ((stored[SYLLABUS_TASKS_KEY] || []) as AssignmentInput[])
+        .filter(task => task.assignmentID !== message.assignmentID);
+      await chrome.storage.local.set({ [SYLLABUS_TASKS_KEY]: tasks, lastUpdated: 0 });
+      return { success: true, tasks };
+    }
+
+    case 'GET_CANVAS_AUTH_STATUS': {
+      const auth = new CanvasAuthService(message.profileId || '');
+      const session = message.profileId ? await auth.getSession() : null;
+      return {
+        signedIn: session !== null,
+        userName: session?.userName ?? null,
+        canvasUrl: session?.canvasUrl ?? null,
+        redirectUri: auth.getRedirectUri(),
+      };
+    }
+
     case 'FETCH_ASSIGNMENTS_DAYS_AHEAD':
       return await fetchAssignmentsDaysAhead(message.daysAhead || 7);
 
@@ -332,7 +728,10 @@ async function handleMessage(
           stored.cachedAssignments || [],
           stored.aiEstimateResults || [],
         );
-        const blocks = await calendarService.autoSchedule(merged);
+        const blocks = await calendarService.autoSchedule(
+          merged.filter(a => !isAssignmentComplete(a)),
+          { pessimistic: message.pessimistic === true },
+        );
         return { blocks };
       } catch (error) {
         return { error: error instanceof Error ? error.message : 'Calendar sync failed' };
@@ -349,7 +748,13 @@ async function handleMessage(
  * Returns merged Assignment[] for backward compat with the popup.
  */
 async function getAssignments() {
-  const stored = await chrome.storage.local.get(['cachedAssignments', 'aiEstimateResults', 'lastUpdated']);
+  const stored = await chrome.storage.local.get([
+    'cachedAssignments',
+    'aiEstimateResults',
+    ANNOUNCEMENT_ALERTS_KEY,
+    'lastUpdated',
+    'lastRefreshStatus',
+  ]);
   const cacheAge = Date.now() - (stored.lastUpdated || 0);
   const maxCacheAge = 5 * 60 * 1000; // 5 minutes
 
@@ -357,22 +762,141 @@ async function getAssignments() {
 
   if (hasCache && cacheAge < maxCacheAge) {
     return {
-      assignments: mergeToAssignments(stored.cachedAssignments, stored.aiEstimateResults),
+      assignments: mergeToAssignments(stored.cachedAssignments, stored.aiEstimateResults, stored[ANNOUNCEMENT_ALERTS_KEY]),
       fromCache: true,
       lastUpdated: stored.lastUpdated,
+      refreshStatus: stored.lastRefreshStatus,
     };
   }
 
-  await refreshAssignmentsInBackground();
-  const fresh = await chrome.storage.local.get(['cachedAssignments', 'aiEstimateResults', 'lastUpdated']);
+  const status = await refreshAssignmentsInBackground();
+  const fresh = await chrome.storage.local.get([
+    'cachedAssignments',
+    'aiEstimateResults',
+    ANNOUNCEMENT_ALERTS_KEY,
+    'lastUpdated',
+  ]);
+
+  // Nothing to fall back on — report the typed failure instead of an empty list
+  if (status && !status.ok && !fresh.cachedAssignments) {
+    return {
+      assignments: [],
+      fromCache: false,
+      lastUpdated: fresh.lastUpdated,
+      error: status.errors[0]?.message || 'Failed to load assignments',
+      errorKind: status.errors[0]?.kind || 'unknown',
+      refreshStatus: status,
+    };
+  }
 
   return {
-    assignments: mergeToAssignments(fresh.cachedAssignments || [], fresh.aiEstimateResults || []),
+    assignments: mergeToAssignments(
+      fresh.cachedAssignments || [],
+      fresh.aiEstimateResults || [],
+      fresh[ANNOUNCEMENT_ALERTS_KEY],
+    ),
     fromCache: false,
     lastUpdated: fresh.lastUpdated,
+    refreshStatus: status ?? undefined,
   };
 }
 
+/**
+ * List active enrollments from every configured profile for the Options
+ * course manager. Profiles that fail are reported by name and skipped.
+ */
+async function getCoursesFromAllProfiles() {
+  const courses: CourseSummary[] = [];
+  const failedProfiles: string[] = [];
+
+  for (const profile of await getCanvasProfiles()) {
+    if (!profile.canvasUrl) continue;
+    const canvasAPI = await createCanvasAPI(profile);
+    if (!canvasAPI) {
+      failedProfiles.push(profile.name);
+      continue;
+    }
+
+    try {
+      const profileCourses = await canvasAPI.getCourses();
+      courses.push(...profileCourses.map(course => ({
+        ...course,
+        profileId: profile.id,
+        profileName: profile.name,
+      })));
+    } catch (error) {
+      console.warn(`[ServiceWorker] Could not list courses for Canvas profile "${profile.name}":`, error);
+      failedProfiles.push(profile.name);
+    }
+  }
+
+  return { courses, failedProfiles };
+}
+
+/**
+ * Read every included course's syllabus and extract dated deliverables for
+ * the student to review, refined by the local LLM when one is configured.
+ * Items already tracked, and items on a day the course already has a Canvas
+ * assignment due, are left out.
+ */
+async function scanSyllabi() {
+  const profiles = await getCanvasProfiles();
+  const { courseSettings } = await chrome.storage.sync.get(['courseSettings']);
+  const stored = await chrome.storage.local.get(['cachedAssignments', SYLLABUS_TASKS_KEY]);
+
+  const tracked = new Set(((stored[SYLLABUS_TASKS_KEY] || []) as AssignmentInput[]).map(t => t.assignmentID));
+  const canvasDueDays = new Set(((stored.cachedAssignments || []) as AssignmentInput[])
+    .filter(a => a.dueDate && !String(a.assignmentID).includes('syllabus_'))
+    .map(a => `${a.source}|${a.courseId}|${new Date(a.dueDate).toDateString()}`));
+
+  const items: SyllabusItem[] = [];
+  const failedProfiles: string[] = [];
+
+  for (const profile of profiles) {
+    if (!profile.canvasUrl) continue;
+    const canvasAPI = await createCanvasAPI(profile);
+    if (!canvasAPI) {
+      failedProfiles.push(profile.name);
+      continue;
+    }
+
+    try {
+      const syllabi = await canvasAPI.getSyllabi(
+        courseId => getCourseSettings(courseSettings, profile.id, courseId).included,
+      );
+      for (const syllabus of syllabi) {
+        items.push(...extractSyllabusItems(syllabus).map(item => tagWithProfile(item, profile)));
+      }
+    } catch (error) {
+      console.warn(`[ServiceWorker] Could not read syllabi for Canvas profile "${profile.name}":`, error);
+      failedProfiles.push(profile.name);
+    }
+  }
+
+  const fresh = items.filter(item =>
+    !tracked.has(item.assignmentID) &&
+    !canvasDueDays.has(`${item.source}|${item.courseId}|${new Date(item.dueDate).toDateString()}`)
+  );
+
+  const { items: reviewed, refined } = await new TimeEstimator().refineSyllabusItems(fresh);
+  return { items: reviewed.sort(compareByDeadline), refined, failedProfiles };
+}
+
+/**
+ * Start tracking syllabus items the student accepted. They show up with the
+ * next refresh, which is forced by expiring the cache.
+ */
+async function acceptSyllabusItems(items: SyllabusItem[]) {
+  const stored = await chrome.storage.local.get([SYLLABUS_TASKS_KEY]);
+  const tasks: AssignmentInput[] = stored[SYLLABUS_TASKS_KEY] || [];
+  const accepted = items.map(({ excerpt: _excerpt, ...task }) => task as AssignmentInput);
+  const acceptedIds = new Set(accepted.map(t => t.assignmentID));
+
+  const next = [...tasks.filter(t => !acceptedIds.has(t.assignmentID)), ...accepted].sort(compareByDeadline);
+  await chrome.storage.local.set({ [SYLLABUS_TASKS_KEY]: next, lastUpdated: 0 });
+  return { success: true, tasks: next };
+}
+
 /**
  * Test Canvas API connection
  */
@@ -388,21 +912,48 @@ async function testCanvasConnection(url: string, token: string) {
 }
 
 /**
- * Fetch assignments due within X days
+ * Run the Canvas OAuth2 sign-in flow for a profile and verify the new session works
+ */
+async function signInWithCanvas(profile: CanvasProfile) {
+  try {
+    const auth = new CanvasAuthService(profile.id);
+    const session = await auth.signIn(profile.canvasUrl, profile.clientId || '');
+    const canvasAPI = new CanvasAPI();
+    canvasAPI.configureOAuth(session.canvasUrl, auth);
+    const isConnected = await canvasAPI.testConnection();
+
+    // Signing in is an explicit action, so save the profile with OAuth selected right away
+    if (isConnected) {
+      const profiles = await getCanvasProfiles();
+      const saved: CanvasProfile = { ...profile, canvasUrl: session.canvasUrl, authMethod: 'oauth' };
+      const known = profiles.some(p => p.id === saved.id);
+      await chrome.storage.sync.set({
+        canvasProfiles: known ? profiles.map(p => (p.id === saved.id ? saved : p)) : [...profiles, saved],
+      });
+    }
+
+    return { success: isConnected, userName: session.userName };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Fetch assignments due within X days from every Canvas profile, with the
+ * same profile-tagged ids as a refresh. Fails only when every profile did.
  */
 async function fetchAssignmentsDaysAhead(daysAhead: number) {
   try {
-    const settings = await chrome.storage.sync.get(['canvasUrl', 'apiToken']);
+    const { assignments, errors, attempted } = await fetchFromAllProfiles(daysAhead);
 
-    if (!settings.canvasUrl || !settings.apiToken) {
+    if (attempted === 0) {
       return { success: false, error: 'Canvas not configured. Please set URL and token in settings.' };
     }
+    if (errors.length === attempted) {
+      return { success: false, error: errors.map(e => `${e.profileName}: ${e.message}`).join('; '), errors };
+    }
 
-    const canvasAPI = new CanvasAPI();
-    canvasAPI.configure(settings.canvasUrl, settings.apiToken);
-
-    const assignments = await canvasAPI.getAssignmentsDueWithinDays(daysAhead);
-    return { success: true, assignments, count: assignments.length, daysAhead };
+    return { success: true, assignments, count: assignments.length, daysAhead, errors };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
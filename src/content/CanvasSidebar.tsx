@@ -1,24 +1,61 @@
 import { useEffect, useState } from 'react';
-import type { AssignmentInput, AIEstimateResult } from '../types';
+import { getSubmissionLabel, isAssignmentComplete } from '../utils/assignment-status';
+import { findProfileForHost, getCanvasProfiles, hasCanvasCredentials } from '../services/canvas-profiles';
+import { CANVAS_ERROR_HELP } from '../services/canvas-errors';
+import { getCourseLabel } from '../utils/course-display';
+import { formatReadingLength } from '../utils/reading-length';
+import { ANNOUNCEMENT_ALERTS_KEY, isAnnouncedDateOutOfSync } from '../services/announcement-watcher';
+import {
+  ASSIGNMENT_SORT_LABELS,
+  compareByImpact,
+  formatGradePercent,
+  getGradePointsPerHour,
+  type AssignmentSortKey,
+} from '../utils/grade-impact';
+import type {
+  AssignmentAlert,
+  AssignmentChangeSet,
+  AssignmentInput,
+  AIEstimateResult,
+  EstimateConfidence,
+  EstimatePart,
+  EstimateRange,
+  RefreshStatus,
+  SubmissionState,
+} from '../types';
 
 /**
  * Merged view of one assignment — combines AssignmentInput metadata with its
  * AIEstimateResult via assignmentID so each source stays small in storage.
  */
 interface DisplayAssignment {
-  assignmentID: number;
+  assignmentID: number | string;
   title: string;
   courseName: string;
+  courseNickname?: string;
+  courseColor?: string;
   dueDate: string;
   htmlUrl: string;
   type: string;
   estimatedMinutes: number | null;
+  breakdown?: EstimatePart[];
+  range?: EstimateRange;
+  confidence?: EstimateConfidence;
   reasoning?: string;
+  submission?: SubmissionState;
+  markedComplete?: boolean;
+  gradeImpact?: number;
+  readingWords?: number;
+  readingPages?: number;
+  alerts: AssignmentAlert[];
+  source?: string;
+  sourceName?: string;
 }
 
 function mergeData(
   inputs: AssignmentInput[],
   estimates: AIEstimateResult[],
+  alerts: AssignmentAlert[] = [],
 ): DisplayAssignment[] {
   const estimateMap = new Map(estimates.map(e => [e.assignmentID, e]));
   return inputs.map(input => {
@@ -27,11 +64,24 @@ function mergeData(
       assignmentID: input.assignmentID,
       title: input.title,
       courseName: input.courseName,
+      courseNickname: input.courseNickname,
+      courseColor: input.courseColor,
       dueDate: input.dueDate,
       htmlUrl: input.htmlUrl,
       type: input.type,
       estimatedMinutes: estimate?.minutes ?? null,
+      breakdown: estimate?.breakdown,
+      range: estimate?.range,
+      confidence: estimate?.confidence,
       reasoning: estimate?.reasoning,
+      submission: input.submission,
+      markedComplete: input.markedComplete,
+      gradeImpact: input.gradeImpact,
+      readingWords: input.readingWords,
+      readingPages: input.readingPages,
+      alerts: alerts.filter(alert => alert.assignmentID === input.assignmentID),
+      source: input.source,
+      sourceName: input.sourceName,
     };
   });
 }
@@ -43,13 +93,30 @@ export function CanvasSidebar() {
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [collapsed, setCollapsed] = useState(false);
+  // The Canvas profile for the school whose pages we're injected into
+  const [currentSource, setCurrentSource] = useState<string | null>(null);
+  const [showAllSchools, setShowAllSchools] = useState(false);
+  // What the last refresh changed, from the sync engine
+  const [changeSet, setChangeSet] = useState<AssignmentChangeSet | null>(null);
+  // Typed errors from the last background refresh, if any
+  const [refreshStatus, setRefreshStatus] = useState<RefreshStatus | null>(null);
+  const [sortBy, setSortBy] = useState<AssignmentSortKey>('due');
 
   useEffect(() => {
     loadFromCache();
+    getCanvasProfiles().then(profiles => {
+      setCurrentSource(findProfileForHost(profiles, window.location.host)?.id ?? null);
+    });
 
     // React to background refreshes that happen while the sidebar is open
     const onStorageChanged = (changes: { [key: string]: chrome.storage.StorageChange }) => {
-      if (changes.cachedAssignments || changes.aiEstimateResults) {
+      if (
+        changes.cachedAssignments ||
+        changes.aiEstimateResults ||
+        changes.lastChangeSet ||
+        changes.lastRefreshStatus ||
+        changes[ANNOUNCEMENT_ALERTS_KEY]
+      ) {
         loadFromCache();
       }
     };
@@ -64,9 +131,7 @@ export function CanvasSidebar() {
    */
   async function loadFromCache() {
     try {
-      const settings = await chrome.storage.sync.get(['canvasUrl', 'apiToken']);
-
-      if (!settings.canvasUrl || !settings.apiToken) {
+      if (!(await hasCanvasCredentials())) {
         setError('Extension not configured');
         return;
       }
@@ -74,11 +139,16 @@ export function CanvasSidebar() {
       const stored = await chrome.storage.local.get([
         'cachedAssignments',
         'aiEstimateResults',
+        'lastChangeSet',
+        'lastRefreshStatus',
+        ANNOUNCEMENT_ALERTS_KEY,
       ]);
+      setRefreshStatus(stored.lastRefreshStatus || null);
 
       if (stored.cachedAssignments && stored.aiEstimateResults) {
         // Cache exists — render immediately, no spinner needed
-        setAssignments(mergeData(stored.cachedAssignments, stored.aiEstimateResults));
+        setAssignments(mergeData(stored.cachedAssignments, stored.aiEstimateResults, stored[ANNOUNCEMENT_ALERTS_KEY]));
+        setChangeSet(stored.lastChangeSet || null);
         setError(null);
       } else {
         // No cache at all — show spinner and trigger a fresh fetch
@@ -100,13 +170,17 @@ export function CanvasSidebar() {
    */
   async function triggerBackgroundRefresh() {
     try {
-      await chrome.runtime.sendMessage({ type: 'REFRESH_ASSIGNMENTS' });
+      const response = await chrome.runtime.sendMessage({ type: 'REFRESH_ASSIGNMENTS' });
+      setRefreshStatus(response?.status || null);
       const stored = await chrome.storage.local.get([
         'cachedAssignments',
         'aiEstimateResults',
+        'lastChangeSet',
+        ANNOUNCEMENT_ALERTS_KEY,
       ]);
       if (stored.cachedAssignments && stored.aiEstimateResults) {
-        setAssignments(mergeData(stored.cachedAssignments, stored.aiEstimateResults));
+        setAssignments(mergeData(stored.cachedAssignments, stored.aiEstimateResults, stored[ANNOUNCEMENT_ALERTS_KEY]));
+        setChangeSet(stored.lastChangeSet || null);
         setError(null);
       }
     } catch (err) {
@@ -137,6 +211,11 @@ export function CanvasSidebar() {
     return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
   }
 
+  function formatRange(range: EstimateRange | undefined): string | null {
+    if (!range || range.high <= range.low) return null;
+    return `${formatTime(range.low)}–${formatTime(range.high)}`;
+  }
+
   function formatDueDate(dueDate: string): string {
     if (!dueDate) return '';
     const date = new Date(dueDate);
@@ -151,6 +230,42 @@ export function CanvasSidebar() {
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   }
 
+  /**
+   * Short tag for an item the last refresh added or changed
+   */
+  function getChangeLabel(assignmentID: number | string): string | null {
+    if (!changeSet) return null;
+    if (changeSet.added.includes(assignmentID)) return 'New';
+    if (changeSet.dueDateMoved.some(c => c.assignmentID === assignmentID)) return 'Due date moved';
+    if (changeSet.descriptionEdited.includes(assignmentID)) return 'Updated';
+    return null;
+  }
+
+  /**
+   * Recovery hint for a failed refresh, with the button that fixes it
+   */
+  function renderRefreshError(error: RefreshStatus['errors'][number], index: number) {
+    const help = CANVAS_ERROR_HELP[error.kind];
+    return (
+      <div key={index} className="cte-error">
+        <p>
+          {help.title}
+          {error.profileName ? ` · ${error.profileName}` : ''}
+        </p>
+        <p className="cte-error-detail">{help.description}</p>
+        {help.action === 'settings' ? (
+          <button onClick={openOptions} className="cte-btn-link">
+            Open Settings
+          </button>
+        ) : (
+          <button onClick={handleRefresh} className="cte-btn-link" disabled={refreshing}>
+            Try Again
+          </button>
+        )}
+      </div>
+    );
+  }
+
   function getTimeBadgeClass(minutes: number | null): string {
     if (!minutes) return '';
     if (minutes >= 180) return 'high';
@@ -158,10 +273,27 @@ export function CanvasSidebar() {
     return '';
   }
 
-  const totalMinutes = assignments.reduce(
+  // Default to this school's work when several Canvas accounts are configured
+  const hasMultipleSources = new Set(assignments.map(a => a.source)).size > 1;
+  const schoolAssignments = hasMultipleSources && currentSource && !showAllSchools
+    ? assignments.filter(a => a.source === currentSource)
+    : assignments;
+  // Cached order is by deadline; the stable sort keeps it for ties and unknowns
+  const visibleAssignments = [...schoolAssignments].sort((a, b) => compareByImpact(sortBy, a, b));
+
+  // Completed work is still listed (dimmed) but excluded from the summary totals
+  const openAssignments = visibleAssignments.filter(a => !isAssignmentComplete(a));
+  const totalMinutes = openAssignments.reduce(
     (sum, a) => sum + (a.estimatedMinutes || 0),
     0,
   );
+  const totalRange = openAssignments.reduce(
+    (sum, a) => ({
+      low: sum.low + (a.range?.low ?? a.estimatedMinutes ?? 0),
+      high: sum.high + (a.range?.high ?? a.estimatedMinutes ?? 0),
+    }),
+    { low: 0, high: 0 },
+  );
 
   return (
     <div className="canvas-time-estimator-sidebar">
@@ -202,7 +334,7 @@ export function CanvasSidebar() {
           <div className="cte-summary">
             <div className="cte-summary-item">
               <span className="cte-summary-value">
-                {loading ? '?' : assignments.length}
+                {loading ? '?' : openAssignments.length}
               </span>
               <span className="cte-summary-label">Assignments</span>
             </div>
@@ -211,9 +343,44 @@ export function CanvasSidebar() {
                 {loading ? '?' : formatTime(totalMinutes)}
               </span>
               <span className="cte-summary-label">Total Time</span>
+              {!loading && formatRange(totalRange) && (
+                <span className="cte-summary-range" title="Optimistic to pessimistic total">
+                  {formatRange(totalRange)}
+                </span>
+              )}
             </div>
           </div>
 
+          {assignments.length > 0 && (
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as AssignmentSortKey)}
+              className="cte-sort-select"
+              aria-label="Sort by"
+            >
+              {(Object.keys(ASSIGNMENT_SORT_LABELS) as AssignmentSortKey[]).map(key => (
+                <option key={key} value={key}>Sort: {ASSIGNMENT_SORT_LABELS[key]}</option>
+              ))}
+            </select>
+          )}
+
+          {hasMultipleSources && currentSource && (
+            <button
+              onClick={() => setShowAllSchools(!showAllSchools)}
+              className="cte-source-toggle"
+            >
+              {showAllSchools ? 'Show this school only' : 'Show all schools'}
+            </button>
+          )}
+
+          {changeSet && changeSet.removed.length > 0 && (
+            <p className="cte-removed-note">
+              {changeSet.removed.length === 1
+                ? `"${changeSet.removed[0].title}" was removed from Canvas`
+                : `${changeSet.removed.length} assignments were removed from Canvas`}
+            </p>
+          )}
+
           {/* Spinner only when there is genuinely no cached data yet */}
           {loading && (
             <div className="cte-loading">
@@ -239,20 +406,34 @@ export function CanvasSidebar() {
             </div>
           )}
 
-          {!loading && !error && assignments.length === 0 && (
+          {!loading && !error && refreshStatus && refreshStatus.errors.length > 0 && (
+            <div className="cte-refresh-errors">
+              {refreshStatus.errors.map(renderRefreshError)}
+            </div>
+          )}
+
+          {!loading && !error && visibleAssignments.length === 0 && (refreshStatus?.ok ?? true) && (
             <div className="cte-empty">
               <p>🎉 All caught up!</p>
               <p className="cte-empty-subtitle">No assignments due soon</p>
             </div>
           )}
 
-          {!loading && !error && assignments.length > 0 && (
+          {!loading && !error && visibleAssignments.length > 0 && (
             <ul className="cte-assignment-list">
-              {assignments.map(assignment => (
-                <li key={assignment.assignmentID} className="cte-assignment-item">
+              {visibleAssignments.map(assignment => (
+                <li
+                  key={assignment.assignmentID}
+                  className={`cte-assignment-item${isAssignmentComplete(assignment) ? ' completed' : ''}`}
+                >
                   <a href={assignment.htmlUrl} className="cte-assignment-link">
                     <div className="cte-assignment-header">
-                      <span className="cte-assignment-title">{assignment.title}</span>
+                      <span className="cte-assignment-title">
+                        {getChangeLabel(assignment.assignmentID) && (
+                          <span className="cte-change-tag">{getChangeLabel(assignment.assignmentID)}</span>
+                        )}
+                        {assignment.title}
+                      </span>
                       <span
                         className={`cte-assignment-time ${getTimeBadgeClass(assignment.estimatedMinutes)}`}
                       >
@@ -260,14 +441,72 @@ export function CanvasSidebar() {
                       </span>
                     </div>
                     <div className="cte-assignment-meta">
-                      <span className="cte-assignment-course">{assignment.courseName}</span>
+                      <span className="cte-assignment-course">
+                        {assignment.courseColor && (
+                          <span
+                            className="cte-course-color"
+                            style={{ backgroundColor: assignment.courseColor }}
+                          />
+                        )}
+                        {getCourseLabel(assignment)}
+                        {hasMultipleSources && (showAllSchools || !currentSource) && assignment.sourceName
+                          ? ` · ${assignment.sourceName}`
+                          : ''}
+                      </span>
+                      {assignment.gradeImpact != null && (
+                        <span
+                          className="cte-assignment-impact"
+                          title="Share of your final grade, and per hour of estimated work"
+                        >
+                          {formatGradePercent(assignment.gradeImpact)}
+                          {getGradePointsPerHour(assignment) !== null &&
+                            ` · ${formatGradePercent(getGradePointsPerHour(assignment)!)}/h`}
+                        </span>
+                      )}
+                      {formatReadingLength(assignment) && (
+                        <span className="cte-assignment-length">{formatReadingLength(assignment)}</span>
+                      )}
+                      {getSubmissionLabel(assignment.submission) && (
+                        <span className="cte-assignment-status">
+                          {getSubmissionLabel(assignment.submission)}
+                        </span>
+                      )}
                       {assignment.dueDate && (
                         <span className="cte-assignment-due">
                           {formatDueDate(assignment.dueDate)}
                         </span>
                       )}
                     </div>
+                    {assignment.breakdown && assignment.breakdown.length > 1 && (
+                      <div className="cte-breakdown">
+                        {assignment.breakdown
+                          .map(part => `${formatTime(part.minutes)} ${part.label.toLowerCase()}`)
+                          .join(' + ')}
+                      </div>
+                    )}
+                    {formatRange(assignment.range) && (
+                      <div className="cte-range" title="Optimistic to pessimistic estimate">
+                        {formatRange(assignment.range)}
+                        {assignment.confidence && ` · ${assignment.confidence} confidence`}
+                      </div>
+                    )}
                   </a>
+                  {assignment.alerts.map(alert => (
+                    <a
+                      key={`${alert.announcementUrl}-${alert.kind}`}
+                      href={alert.announcementUrl}
+                      className={`cte-alert${alert.kind === 'date_change' ? ' date-change' : ''}`}
+                      title={`Announcement: ${alert.announcementTitle}`}
+                    >
+                      <strong>
+                        {alert.kind === 'date_change' ? '📢 Date change announced' : '📢 In an announcement'}
+                      </strong>
+                      <span className="cte-alert-excerpt">{alert.excerpt}</span>
+                      {isAnnouncedDateOutOfSync(alert, assignment.dueDate) && (
+                        <span className="cte-alert-excerpt">Canvas hasn't been updated yet.</span>
+                      )}
+                    </a>
+                  ))}
                 </li>
               ))}
             </ul>
@@ -160,17 +160,21 @@
   }
 
   /**
-   * Detect assignment type from element or title
+   * Detect assignment type from the item's Canvas link, falling back to the title
+   * only when the link doesn't say what kind of item it is
    */
-  function detectAssignmentType(element: { innerHTML: string; }, title: string) {
+  function detectAssignmentType(element: Element, title: string) {
+    const href = element.querySelector('a[href]')?.getAttribute('href') || '';
+
+    if (/\/quizzes\/\d+/.test(href)) return 'quiz';
+    if (/\/discussion_topics\/\d+/.test(href)) return 'discussion';
+    if (/\/pages\//.test(href)) return 'page';
+    if (/\/assignments\/\d+/.test(href)) return 'assignment';
+
     const titleLower = title.toLowerCase();
-    const html = element.innerHTML.toLowerCase();
 
-    if (titleLower.includes('quiz') || html.includes('quiz')) return 'quiz';
-    if (titleLower.includes('discussion') || html.includes('discussion')) return 'discussion';
-    if (titleLower.includes('essay') || titleLower.includes('paper')) return 'essay';
-    if (titleLower.includes('project') || titleLower.includes('presentation')) return 'project';
-    if (titleLower.includes('exam') || titleLower.includes('test')) return 'exam';
+    if (titleLower.includes('quiz')) return 'quiz';
+    if (titleLower.includes('discussion')) return 'discussion';
 
     return 'assignment';
   }
@@ -198,7 +202,10 @@
   /**
    * Inject time estimate badge into element
    */
-  function injectBadge(element: Element, estimate: { estimatedMinutes?: any; }) {
+  function injectBadge(
+    element: Element,
+    estimate: { estimatedMinutes?: any; range?: { low: number; high: number }; confidence?: string; },
+  ) {
     // Remove existing badge if present
     const existingBadge = element.querySelector(`.${CONFIG.badgeClass}`);
     if (existingBadge) {
@@ -211,6 +218,14 @@
     badge.textContent = formatTime(estimate.estimatedMinutes);
     badge.title = `Estimated time: ${formatTimeLong(estimate.estimatedMinutes)}`;
 
+    // Show the optimistic-to-pessimistic range when the estimate has one
+    const range = estimate.range;
+    if (range && range.high > range.low) {
+      badge.textContent = `${formatTime(range.low)}–${formatTime(range.high)}`;
+      badge.title += ` (${formatTimeLong(range.low)} to ${formatTimeLong(range.high)}` +
+        `${estimate.confidence ? `, ${estimate.confidence} confidence` : ''})`;
+    }
+
     // Style based on time
     if (estimate.estimatedMinutes >= 180) {
       badge.classList.add('high');
@@ -1,24 +1,32 @@
 import React, { useEffect, useState } from 'react';
 import { AccountSection } from './components/AccountSection';
 import { CanvasSection } from './components/CanvasSection';
+import { CoursesSection } from './components/CoursesSection';
+import { SyllabusSection } from './components/SyllabusSection';
 import { AISection } from './components/AISection';
 import { PreferencesSection } from './components/PreferencesSection';
 import { useFeatureGate } from '../hooks/useFeatureGate';
+import { createEmptyProfile, getCanvasProfiles } from '../services/canvas-profiles';
 import type { Settings } from '../types';
 
 const DEFAULT_SETTINGS: Settings = {
-  canvasUrl: '',
-  apiToken: '',
+  canvasProfiles: [],
   aiProvider: 'none',
   openaiApiKey: '',
   localLlmUrl: 'http://localhost:11434',
   localLlmModel: 'llama3:8b',
+  compatibleBaseUrl: 'http://localhost:1234/v1',
+  compatibleApiKey: '',
+  compatibleModel: '',
   estimationModel: 'gpt-4o-mini',
+  estimationBatchSize: 5,
   showNotifications: true,
   refreshInterval: 30,
   lookaheadDays: 14,
   injectBadges: true,
   showSidebar: true,
+  hideCompleted: false,
+  courseSettings: {},
 };
 
 export function Options() {
@@ -34,7 +42,13 @@ export function Options() {
   async function loadSettings() {
     try {
       const stored = await chrome.storage.sync.get(Object.keys(DEFAULT_SETTINGS));
-      setSettings({ ...DEFAULT_SETTINGS, ...stored });
+      // Picks up pre-profile installs' single canvasUrl / apiToken too
+      const profiles = await getCanvasProfiles();
+      setSettings({
+        ...DEFAULT_SETTINGS,
+        ...stored,
+        canvasProfiles: profiles.length > 0 ? profiles : [createEmptyProfile('Canvas')],
+      });
     } catch (error) {
       console.error('Failed to load settings:', error);
     }
@@ -51,6 +65,8 @@ export function Options() {
 
     try {
       await chrome.storage.sync.set(settings);
+      // The profile list supersedes the pre-profile single-account keys
+      await chrome.storage.sync.remove(['canvasUrl', 'apiToken']);
 
       // Update alarm interval
       await chrome.alarms.clear('refresh-assignments');
@@ -76,7 +92,7 @@ export function Options() {
     try {
       await chrome.storage.sync.clear();
       await chrome.storage.local.clear();
-      setSettings(DEFAULT_SETTINGS);
+      setSettings({ ...DEFAULT_SETTINGS, canvasProfiles: [createEmptyProfile('Canvas')] });
       setIsDirty(false);
       setSaveStatus('idle');
     } catch (error) {
@@ -105,17 +121,19 @@ export function Options() {
           <AccountSection />
 
           <CanvasSection
-            canvasUrl={settings.canvasUrl}
-            apiToken={settings.apiToken}
+            profiles={settings.canvasProfiles}
             onChange={updateSettings}
           />
 
+          <CoursesSection
+            courseSettings={settings.courseSettings}
+            onChange={updateSettings}
+          />
+
+          <SyllabusSection />
+
           <AISection
-            provider={settings.aiProvider}
-            openaiKey={settings.openaiApiKey || ''}
-            localLlmUrl={settings.localLlmUrl || 'http://localhost:11434'}
-            localLlmModel={settings.localLlmModel || 'llama3:8b'}
-            model={settings.estimationModel}
+            settings={settings}
             onChange={updateSettings}
             isFree={isFree}
           />
@@ -124,6 +142,7 @@ export function Options() {
             showNotifications={settings.showNotifications}
             injectBadges={settings.injectBadges}
             showSidebar={settings.showSidebar}
+            hideCompleted={settings.hideCompleted}
             refreshInterval={settings.refreshInterval}
             lookaheadDays={settings.lookaheadDays}
             onChange={updateSettings}
@@ -1,42 +1,84 @@
 import React, { useState } from 'react';
+import {
+  createProvider,
+  getProviderDescriptors,
+  normalizeChatBaseUrl,
+  type ProviderDescriptor,
+  type ProviderField,
+  type ProviderHealth,
+} from '../../services/estimation-providers';
+import { licensingService } from '../../services/licensing';
 import type { Settings } from '../../types';
 
-const OLLAMA_MODELS = [
-  { value: 'qwen2.5-coder:1.5b', label: 'Qwen2.5 Coder 1.5B (Fast & Efficient)', recommended: true },
-  { value: 'llama3:8b', label: 'Llama 3 8B (More capable)' },
+const PROVIDERS = getProviderDescriptors();
+
+const BATCH_SIZES = [
+  { value: 1, label: 'One at a time' },
+  { value: 5, label: '5 per request' },
+  { value: 10, label: '10 per request' },
+  { value: 20, label: '20 per request' },
 ];
 
 interface AISectionProps {
-  provider: Settings['aiProvider'];
-  openaiKey: string;
-  localLlmUrl: string;
-  localLlmModel: string;
-  model: string;
+  settings: Settings;
   onChange: (updates: Partial<Settings>) => void;
   isFree?: boolean;
 }
 
-export function AISection({ provider, localLlmUrl, localLlmModel, model, onChange }: AISectionProps) {
-  const [testingConnection, setTestingConnection] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<'idle' | 'success' | 'error'>('idle');
+export function AISection({ settings, onChange, isFree = false }: AISectionProps) {
+  const [checking, setChecking] = useState(false);
+  const [health, setHealth] = useState<ProviderHealth | null>(null);
+
+  const descriptor = PROVIDERS.find(p => p.id === settings.aiProvider) ?? null;
+  const tier = isFree ? 'free' : 'premium';
+
+  const valueOf = (field: ProviderField) => settings[field.key] ?? field.defaultValue;
+  const isOptionAllowed = (field: ProviderField, value: string) =>
+    !field.tierGated || licensingService.isModelAllowed(value, tier);
 
-  const testOllamaConnection = async () => {
-    setTestingConnection(true);
-    setConnectionStatus('idle');
+  const changeProvider = (id: string) => {
+    setHealth(null);
+    const next = PROVIDERS.find(p => p.id === id);
+    const updates: Partial<Settings> = { aiProvider: id };
+
+    // Fields shared between providers (estimationModel) may hold a value the
+    // new provider doesn't offer
+    for (const field of next?.fields ?? []) {
+      const value = settings[field.key];
+      const invalid = field.kind === 'select'
+        ? !field.options?.some(o => o.value === value && isOptionAllowed(field, o.value))
+        : !value;
+      if (invalid) updates[field.key] = field.defaultValue;
+    }
+    onChange(updates);
+  };
+
+  const runHealthCheck = async (current: ProviderDescriptor) => {
+    setChecking(true);
+    setHealth(null);
     try {
-      const url = localLlmUrl || 'http://localhost:11434';
-      const response = await fetch(`${url}`);
-      if (response.ok) {
-        setConnectionStatus('success');
-      } else {
-        setConnectionStatus('error');
+      // Only localhost is granted up front; other hosts need the student's OK
+      if (current.hostField) {
+        const url = normalizeChatBaseUrl(settings[current.hostField] || '');
+        const granted = await chrome.permissions.request({ origins: [`${new URL(url).origin}/*`] });
+        if (!granted) {
+          setHealth({ ok: false, message: 'Permission to reach this server was not granted.' });
+          return;
+        }
       }
-    } catch {
-      setConnectionStatus('error');
+
+      const provider = createProvider(current.id)!;
+      provider.configure(settings, tier);
+      setHealth(await provider.healthCheck());
+    } catch (error) {
+      setHealth({ ok: false, message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setChecking(false);
     }
-    setTestingConnection(false);
   };
 
+  const missingRequired = descriptor?.fields.some(f => !f.optional && !String(valueOf(f)).trim());
+
   return (
     <section className="card p-6">
       <h2 className="text-lg font-semibold text-gray-800 mb-1">
@@ -54,110 +96,162 @@ export function AISection({ provider, localLlmUrl, localLlmModel, model, onChang
           </label>
           <select
             id="ai-provider"
-            value={provider}
-            onChange={(e) => onChange({ aiProvider: e.target.value as Settings['aiProvider'] })}
+            value={descriptor ? descriptor.id : 'none'}
+            onChange={(e) => changeProvider(e.target.value)}
             className="input"
           >
             <option value="none">None (Use heuristics only)</option>
-            <option value="local">Local LLM (Ollama)</option>
-            <option value="openai" disabled>OpenAI (GPT) — Coming Soon</option>
+            {PROVIDERS.map((p) => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
           </select>
         </div>
 
         {/* Info about heuristics */}
-        {provider === 'none' && (
+        {!descriptor && (
           <div className="p-3 bg-blue-50 rounded-lg text-sm text-blue-800">
             <strong>💡 Heuristic Mode:</strong> Time estimates will be calculated based on assignment type,
             points, and title keywords. For more accurate estimates, configure an AI provider.
           </div>
         )}
-        
-        {provider === 'local' && (
+
+        {descriptor && (
           <div className="space-y-4">
-            <div>
-              <label htmlFor="local-llm-url" className="block text-sm font-medium text-gray-700 mb-1">
-                Ollama Server URL
-              </label>
-              <input
-                type="text"
-                id="local-llm-url"
-                value={localLlmUrl}
-                onChange={(e) => onChange({ localLlmUrl: e.target.value })}
-                placeholder="http://localhost:11434/api/generate"
-                className="input"
+            {descriptor.fields.map((field) => (
+              <ProviderFieldInput
+                key={field.key}
+                field={field}
+                value={String(valueOf(field))}
+                models={field.suggestModels ? health?.models ?? [] : []}
+                isOptionAllowed={(value) => isOptionAllowed(field, value)}
+                onChange={(value) => {
+                  onChange({ [field.key]: value });
+                  setHealth(null);
+                }}
               />
-              <p className="mt-1 text-xs text-gray-500">
-                Default is http://localhost:11434/api/generate. For a remote PC, use its IP address (e.g., http://192.168.1.100:11434)
-              </p>
-            </div>
+            ))}
 
             <div>
-              <label htmlFor="local-llm-model" className="block text-sm font-medium text-gray-700 mb-1">
-                Model Name
+              <label htmlFor="ai-batch-size" className="block text-sm font-medium text-gray-700 mb-1">
+                Assignments per Request
               </label>
-              <input
-                type="text"
-                id="local-llm-model"
-                value={localLlmModel}
-                onChange={(e) => onChange({ localLlmModel: e.target.value })}
-                placeholder="llama3:8b"
+              <select
+                id="ai-batch-size"
+                value={settings.estimationBatchSize}
+                onChange={(e) => onChange({ estimationBatchSize: Number(e.target.value) })}
                 className="input"
-              />
+              >
+                {BATCH_SIZES.map((b) => (
+                  <option key={b.value} value={b.value}>{b.label}</option>
+                ))}
+              </select>
               <p className="mt-1 text-xs text-gray-500">
-                The model name as shown in <code className="bg-gray-100 px-1 rounded">ollama list</code>
+                Batching makes refreshes faster and uses fewer tokens. Small local models are more reliable with small batches; anything a batch misses is estimated on its own.
               </p>
             </div>
 
             <div className="flex items-center gap-3">
               <button
                 type="button"
-                onClick={testOllamaConnection}
-                disabled={testingConnection}
+                onClick={() => runHealthCheck(descriptor)}
+                disabled={checking || missingRequired}
                 className="btn-secondary text-sm"
               >
-                {testingConnection ? 'Testing...' : 'Test Connection'}
+                {checking ? 'Checking...' : descriptor.healthCheckLabel}
               </button>
-              {connectionStatus === 'success' && (
-                <span className="text-green-600 text-sm">Connected successfully!</span>
+              {health && (
+                <span className={`text-sm ${health.ok ? 'text-green-600' : 'text-red-600'}`}>
+                  {health.message}
+                </span>
               )}
-              {connectionStatus === 'error' && (
-                <span className="text-red-600 text-sm">Connection failed. Is Ollama running?</span>
-              )}
-            </div>
-
-            <div className="p-3 bg-amber-50 rounded-lg text-sm text-amber-800">
-              <strong>Setup Instructions:</strong>
-              <ol className="list-decimal ml-4 mt-1 space-y-1">
-                <li>Install Ollama from <a href="https://ollama.ai" target="_blank" rel="noopener noreferrer" className="underline">ollama.ai</a></li>
-                <li>Run: <code className="bg-amber-100 px-1 rounded">ollama pull qwen2.5-coder:1.5b</code></li>
-                <li>Start server: <code className="bg-amber-100 px-1 rounded">ollama serve</code></li>
-                <li>For network access: <code className="bg-amber-100 px-1 rounded">OLLAMA_HOST=0.0.0.0 ollama serve</code></li>
-              </ol>
             </div>
-          </div>
-        )}
 
-        {/* Model Selection — only shown for Ollama */}
-        {provider === 'local' && (
-          <div>
-            <label htmlFor="ai-model" className="block text-sm font-medium text-gray-700 mb-1">
-              Model
-            </label>
-            <select
-              id="ai-model"
-              value={model}
-              onChange={(e) => onChange({ estimationModel: e.target.value })}
-              className="input"
-            >
-              {OLLAMA_MODELS.map((m) => (
-                <option key={m.value} value={m.value}>
-                  {m.label}{m.recommended ? ' *' : ''}
-                </option>
-              ))}
-            </select>
+            {descriptor.setupSteps && (
+              <div className="p-3 bg-amber-50 rounded-lg text-sm text-amber-800">
+                <strong>Setup Instructions:</strong>
+                <ol className="list-decimal ml-4 mt-1 space-y-1">
+                  {descriptor.setupSteps.map((step) => (
+                    <li key={step}>{formatHint(step, 'bg-amber-100')}</li>
+                  ))}
+                </ol>
+              </div>
+            )}
           </div>
         )}
       </div>
     </section>
   );
 }
+
+interface ProviderFieldInputProps {
+  field: ProviderField;
+  value: string;
+  models: string[];
+  isOptionAllowed: (value: string) => boolean;
+  onChange: (value: string) => void;
+}
+
+/**
+ * One provider setting: a select, or a text / password input with
+ * suggestions from the field's options and the models the health check found
+ */
+function ProviderFieldInput({ field, value, models, isOptionAllowed, onChange }: ProviderFieldInputProps) {
+  const id = `ai-${field.key}`;
+  const suggestions = Array.from(new Set([...(field.options ?? []).map(o => o.value), ...models]));
+  const looksWrong = field.pattern && value.trim().length > 0 && !field.pattern.test(value.trim());
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        {field.label}
+      </label>
+      {field.kind === 'select' ? (
+        <select id={id} value={value} onChange={(e) => onChange(e.target.value)} className="input">
+          {field.options?.map((o) => (
+            <option key={o.value} value={o.value} disabled={!isOptionAllowed(o.value)}>
+              {o.label}{isOptionAllowed(o.value) ? '' : ' (Premium)'}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <>
+          <input
+            type={field.kind}
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={field.placeholder}
+            list={suggestions.length > 0 ? `${id}-suggestions` : undefined}
+            autoComplete="off"
+            className="input"
+          />
+          {suggestions.length > 0 && (
+            <datalist id={`${id}-suggestions`}>
+              {suggestions.map((s) => <option key={s} value={s} />)}
+            </datalist>
+          )}
+        </>
+      )}
+      {looksWrong ? (
+        <p className="mt-1 text-xs text-red-600">{formatHint(field.patternHint ?? 'This value looks wrong.')}</p>
+      ) : field.help && (
+        <p className="mt-1 text-xs text-gray-500">{formatHint(field.help)}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Render descriptor text: `backticks` become code and URLs become links
+ */
+function formatHint(text: string, codeClass = 'bg-gray-100'): React.ReactNode[] {
+  return text.split(/(`[^`]+`|https?:\/\/\S+[^\s.,)])/g).map((part, i) => {
+    if (part.startsWith('`')) {
+      return <code key={i} className={`${codeClass} px-1 rounded`}>{part.slice(1, -1)}</code>;
+    }
+    if (/^https?:\/\//.test(part)) {
+      return <a key={i} href={part} target="_blank" rel="noopener noreferrer" className="underline">{part}</a>;
+    }
+    return part;
+  });
+}
@@ -1,16 +1,118 @@
-import React, { useState } from 'react';
-import type { Settings } from '../../types';
+import React, { useEffect, useState } from 'react';
+import { createEmptyProfile } from '../../services/canvas-profiles';
+import { CanvasAuthService } from '../../services/canvas-auth';
+import type { CanvasProfile, Settings } from '../../types';
 
 interface CanvasSectionProps {
-  canvasUrl: string;
-  apiToken: string;
+  profiles: CanvasProfile[];
   onChange: (updates: Partial<Settings>) => void;
 }
 
-export function CanvasSection({ canvasUrl, apiToken, onChange }: CanvasSectionProps) {
+interface AuthStatus {
+  signedIn: boolean;
+  userName: string | null;
+  redirectUri: string;
+}
+
+export function CanvasSection({ profiles, onChange }: CanvasSectionProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(profiles[0]?.id ?? null);
   const [showToken, setShowToken] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
   const [showHelp, setShowHelp] = useState(false);
+  const [authStatus, setAuthStatus] = useState<AuthStatus | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+  const [signInError, setSignInError] = useState<string | null>(null);
+  // Kept in chrome.storage.local, not in the synced profile
+  const [clientSecret, setClientSecret] = useState('');
+
+  const profile = profiles.find(p => p.id === selectedId) || profiles[0];
+  const canvasUrl = profile?.canvasUrl || '';
+  const apiToken = profile?.apiToken || '';
+  const authMethod = profile?.authMethod || 'token';
+  const clientId = profile?.clientId || '';
+
+  useEffect(() => {
+    setConnectionStatus('idle');
+    setSignInError(null);
+    loadAuthStatus();
+    setClientSecret('');
+    if (profile) {
+      new CanvasAuthService(profile.id).getClientSecret().then(setClientSecret);
+    }
+  }, [profile?.id]);
+
+  async function loadAuthStatus() {
+    if (!profile) return;
+    try {
+      const status = await chrome.runtime.sendMessage({ type: 'GET_CANVAS_AUTH_STATUS', profileId: profile.id });
+      setAuthStatus(status);
+    } catch (error) {
+      console.error('Failed to load Canvas sign-in status:', error);
+    }
+  }
+
+  function updateClientSecret(secret: string) {
+    if (!profile) return;
+    setClientSecret(secret);
+    new CanvasAuthService(profile.id).setClientSecret(secret);
+  }
+
+  function updateProfile(updates: Partial<CanvasProfile>) {
+    if (!profile) return;
+    onChange({
+      canvasProfiles: profiles.map(p => (p.id === profile.id ? { ...p, ...updates } : p)),
+    });
+  }
+
+  function addProfile() {
+    const created = createEmptyProfile(`School ${profiles.length + 1}`);
+    onChange({ canvasProfiles: [...profiles, created] });
+    setSelectedId(created.id);
+  }
+
+  function removeProfile() {
+    if (!profile) return;
+    if (!confirm(`Remove the "${profile.name}" Canvas account?`)) return;
+
+    if (profile.authMethod === 'oauth') {
+      chrome.runtime.sendMessage({ type: 'CANVAS_OAUTH_SIGN_OUT', profileId: profile.id });
+    }
+    new CanvasAuthService(profile.id).setClientSecret('');
+    const remaining = profiles.filter(p => p.id !== profile.id);
+    onChange({ canvasProfiles: remaining });
+    setSelectedId(remaining[0]?.id ?? null);
+  }
+
+  async function handleSignIn() {
+    if (!canvasUrl || !clientId) {
+      setSignInError('Enter your Canvas URL and developer key client ID first.');
+      return;
+    }
+
+    setSigningIn(true);
+    setSignInError(null);
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'CANVAS_OAUTH_SIGN_IN',
+        profile,
+      });
+
+      if (!response.success) {
+        setSignInError(response.error || 'Sign-in failed');
+      }
+    } catch {
+      setSignInError('Sign-in failed');
+    }
+
+    setSigningIn(false);
+    await loadAuthStatus();
+  }
+
+  async function handleSignOut() {
+    await chrome.runtime.sendMessage({ type: 'CANVAS_OAUTH_SIGN_OUT', profileId: profile?.id });
+    await loadAuthStatus();
+  }
 
   async function testConnection() {
     if (!canvasUrl || !apiToken) {
@@ -39,80 +141,210 @@ export function CanvasSection({ canvasUrl, apiToken, onChange }: CanvasSectionPr
         Canvas Connection
       </h2>
       <p className="text-sm text-gray-500 mb-4">
-        Connect to your Canvas LMS instance to fetch assignments.
+        Connect to your Canvas LMS instance to fetch assignments. Add another school if you're
+        dual-enrolled or TA at a different institution.
       </p>
 
-      <div className="space-y-4">
-        {/* Canvas URL */}
-        <div>
-          <label htmlFor="canvas-url" className="block text-sm font-medium text-gray-700 mb-1">
-            Canvas URL
-          </label>
-          <input
-            type="url"
-            id="canvas-url"
-            value={canvasUrl}
-            onChange={(e) => onChange({ canvasUrl: e.target.value })}
-            placeholder="https://yourschool.instructure.com"
-            className="input"
-          />
-          <p className="mt-1 text-xs text-gray-500">
-            Your school's Canvas URL (e.g., https://canvas.university.edu)
-          </p>
-        </div>
+      {/* Profile picker */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {profiles.map(p => (
+          <button
+            key={p.id}
+            type="button"
+            onClick={() => setSelectedId(p.id)}
+            className={`btn text-sm ${p.id === profile?.id ? 'btn-primary' : 'btn-secondary'}`}
+          >
+            {p.name || 'Untitled'}
+          </button>
+        ))}
+        <button type="button" onClick={addProfile} className="btn btn-ghost text-sm">
+          + Add School
+        </button>
+      </div>
 
-        {/* API Token */}
-        <div>
-          <label htmlFor="api-token" className="block text-sm font-medium text-gray-700 mb-1">
-            API Access Token
-          </label>
-          <div className="relative">
+      {profile && (
+        <div className="space-y-4">
+          {/* Profile name */}
+          <div>
+            <label htmlFor="canvas-profile-name" className="block text-sm font-medium text-gray-700 mb-1">
+              Name
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                id="canvas-profile-name"
+                value={profile.name}
+                onChange={(e) => updateProfile({ name: e.target.value })}
+                placeholder="e.g., State University"
+                className="input flex-1"
+              />
+              <button type="button" onClick={removeProfile} className="btn btn-ghost text-sm text-red-600">
+                Remove
+              </button>
+            </div>
+          </div>
+
+          {/* Canvas URL */}
+          <div>
+            <label htmlFor="canvas-url" className="block text-sm font-medium text-gray-700 mb-1">
+              Canvas URL
+            </label>
             <input
-              type={showToken ? 'text' : 'password'}
-              id="api-token"
-              value={apiToken}
-              onChange={(e) => onChange({ apiToken: e.target.value })}
-              placeholder="Enter your Canvas API token"
-              className="input pr-10"
+              type="url"
+              id="canvas-url"
+              value={canvasUrl}
+              onChange={(e) => updateProfile({ canvasUrl: e.target.value })}
+              placeholder="https://yourschool.instructure.com"
+              className="input"
             />
-            <button
-              type="button"
-              onClick={() => setShowToken(!showToken)}
-              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600"
-            >
-              {showToken ? '🙈' : '👁️'}
-            </button>
+            <p className="mt-1 text-xs text-gray-500">
+              Your school's Canvas URL (e.g., https://canvas.university.edu)
+            </p>
           </div>
-          <p className="mt-1 text-xs text-gray-500">
-            <button
-              type="button"
-              onClick={() => setShowHelp(true)}
-              className="text-canvas-purple hover:underline"
-            >
-              How do I get an API token?
-            </button>
-          </p>
-        </div>
 
-        {/* Test Connection Button */}
-        <div className="flex items-center gap-3">
-          <button
-            type="button"
-            onClick={testConnection}
-            disabled={connectionStatus === 'testing'}
-            className="btn btn-secondary"
-          >
-            {connectionStatus === 'testing' ? 'Testing...' : 'Test Connection'}
-          </button>
+          {/* Sign-in method */}
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              Sign-in Method
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => updateProfile({ authMethod: 'oauth' })}
+                className={`btn text-sm ${authMethod === 'oauth' ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Sign in with Canvas
+              </button>
+              <button
+                type="button"
+                onClick={() => updateProfile({ authMethod: 'token' })}
+                className={`btn text-sm ${authMethod === 'token' ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Access Token
+              </button>
+            </div>
+          </div>
+
+          {authMethod === 'oauth' && (
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="canvas-client-id" className="block text-sm font-medium text-gray-700 mb-1">
+                  Developer Key Client ID
+                </label>
+                <input
+                  type="text"
+                  id="canvas-client-id"
+                  value={clientId}
+                  onChange={(e) => updateProfile({ clientId: e.target.value })}
+                  placeholder="10000000000001"
+                  className="input"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="canvas-client-secret" className="block text-sm font-medium text-gray-700 mb-1">
+                  Developer Key Secret
+                </label>
+                <input
+                  type="password"
+                  id="canvas-client-secret"
+                  value={clientSecret}
+                  onChange={(e) => updateClientSecret(e.target.value)}
+                  placeholder="Provided by your Canvas admin"
+                  className="input"
+                />
+                {authStatus?.redirectUri && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Redirect URI for the developer key:{' '}
+                    <code className="bg-gray-100 px-1 rounded break-all">{authStatus.redirectUri}</code>
+                  </p>
+                )}
+              </div>
 
-          {connectionStatus === 'success' && (
-            <span className="text-sm text-green-600">✓ Connected successfully!</span>
+              <div className="flex items-center gap-3">
+                {authStatus?.signedIn ? (
+                  <>
+                    <span className="text-sm text-green-600">
+                      ✓ Signed in{authStatus.userName ? ` as ${authStatus.userName}` : ''}
+                    </span>
+                    <button type="button" onClick={handleSignOut} className="btn btn-secondary text-sm">
+                      Sign Out
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleSignIn}
+                    disabled={signingIn}
+                    className="btn btn-primary"
+                  >
+                    {signingIn ? 'Signing in...' : 'Sign in with Canvas'}
+                  </button>
+                )}
+              </div>
+              {signInError && (
+                <p className="text-sm text-red-600">✗ {signInError}</p>
+              )}
+            </div>
           )}
-          {connectionStatus === 'error' && (
-            <span className="text-sm text-red-600">✗ Connection failed</span>
+
+          {/* API Token */}
+          {authMethod === 'token' && (
+            <div>
+              <label htmlFor="api-token" className="block text-sm font-medium text-gray-700 mb-1">
+                API Access Token
+              </label>
+              <div className="relative">
+                <input
+                  type={showToken ? 'text' : 'password'}
+                  id="api-token"
+                  value={apiToken}
+                  onChange={(e) => updateProfile({ apiToken: e.target.value })}
+                  placeholder="Enter your Canvas API token"
+                  className="input pr-10"
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowToken(!showToken)}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600"
+                >
+                  {showToken ? '🙈' : '👁️'}
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                <button
+                  type="button"
+                  onClick={() => setShowHelp(true)}
+                  className="text-canvas-purple hover:underline"
+                >
+                  How do I get an API token?
+                </button>
+              </p>
+            </div>
+          )}
+
+          {/* Test Connection Button */}
+          {authMethod === 'token' && (
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={testConnection}
+                disabled={connectionStatus === 'testing'}
+                className="btn btn-secondary"
+              >
+                {connectionStatus === 'testing' ? 'Testing...' : 'Test Connection'}
+              </button>
+
+              {connectionStatus === 'success' && (
+                <span className="text-sm text-green-600">✓ Connected successfully!</span>
+              )}
+              {connectionStatus === 'error' && (
+                <span className="text-sm text-red-600">✗ Connection failed</span>
+              )}
+            </div>
           )}
         </div>
-      </div>
+      )}
 
       {/* Help Modal */}
       {showHelp && (
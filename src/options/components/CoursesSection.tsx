@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import {
+  DEFAULT_COURSE_SETTINGS,
+  WORKLOAD_MULTIPLIERS,
+  getCourseKey,
+  getCourseSettings,
+} from '../../services/course-settings';
+import type { CourseSettings, CourseSummary, Settings } from '../../types';
+
+interface CoursesSectionProps {
+  courseSettings: Record<string, CourseSettings>;
+  onChange: (updates: Partial<Settings>) => void;
+}
+
+export function CoursesSection({ courseSettings, onChange }: CoursesSectionProps) {
+  const [courses, setCourses] = useState<CourseSummary[]>([]);
+  const [failedProfiles, setFailedProfiles] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadCourses();
+  }, []);
+
+  async function loadCourses() {
+    setLoading(true);
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_COURSES' });
+      setCourses(response?.courses || []);
+      setFailedProfiles(response?.failedProfiles || []);
+    } catch (error) {
+      console.error('Failed to load courses:', error);
+    }
+    setLoading(false);
+  }
+
+  function updateCourse(course: CourseSummary, updates: Partial<CourseSettings>) {
+    const key = getCourseKey(course.profileId, course.id);
+    const next = { ...getCourseSettings(courseSettings, course.profileId, course.id), ...updates };
+
+    // Don't keep entries that match the defaults
+    const remaining = { ...courseSettings };
+    const isDefault = (Object.keys(DEFAULT_COURSE_SETTINGS) as (keyof CourseSettings)[])
+      .every(field => next[field] === DEFAULT_COURSE_SETTINGS[field]);
+    if (isDefault) {
+      delete remaining[key];
+    } else {
+      remaining[key] = next;
+    }
+
+    onChange({ courseSettings: remaining });
+  }
+
+  const showProfile = new Set(courses.map(c => c.profileId)).size > 1;
+
+  return (
+    <section className="card p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-gray-800">
+          Courses
+        </h2>
+        <button type="button" onClick={loadCourses} className="btn btn-ghost text-sm" disabled={loading}>
+          {loading ? 'Loading...' : 'Reload'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Choose which courses count toward your workload. Nicknames and colors
+        default to the ones you set in Canvas. A multiplier above 1x stretches
+        estimates for courses that take you longer than average.
+      </p>
+
+      {failedProfiles.length > 0 && (
+        <p className="text-xs text-red-600 mb-3">
+          Couldn't load courses from {failedProfiles.join(', ')}. Check the Canvas connection above.
+        </p>
+      )}
+
+      {!loading && courses.length === 0 && failedProfiles.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No active courses found. Save a working Canvas connection first.
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {courses.map(course => {
+          const settings = getCourseSettings(courseSettings, course.profileId, course.id);
+          const key = getCourseKey(course.profileId, course.id);
+
+          return (
+            <div
+              key={key}
+              className={`rounded-lg border border-gray-200 p-3${settings.included ? '' : ' opacity-60'}`}
+            >
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.included}
+                  onChange={(e) => updateCourse(course, { included: e.target.checked })}
+                  className="w-4 h-4 rounded border-gray-300 text-canvas-purple focus:ring-canvas-purple"
+                />
+                <div className="min-w-0">
+                  <span className="text-sm font-medium text-gray-700">{course.name}</span>
+                  <p className="text-xs text-gray-500">
+                    {course.courseCode}
+                    {showProfile && ` · ${course.profileName}`}
+                  </p>
+                </div>
+              </label>
+
+              {settings.included && (
+                <div className="mt-3 grid grid-cols-[1fr_auto_auto] gap-2 items-center">
+                  <input
+                    type="text"
+                    value={settings.nickname}
+                    onChange={(e) => updateCourse(course, { nickname: e.target.value })}
+                    placeholder={course.canvasNickname || 'Nickname'}
+                    aria-label={`Nickname for ${course.name}`}
+                    className="input text-sm"
+                  />
+                  <input
+                    type="color"
+                    value={settings.color || course.canvasColor || '#6b7280'}
+                    onChange={(e) => updateCourse(course, { color: e.target.value })}
+                    aria-label={`Color for ${course.name}`}
+                    className="w-9 h-9 rounded border border-gray-300 cursor-pointer"
+                  />
+                  <select
+                    value={settings.workloadMultiplier}
+                    onChange={(e) => updateCourse(course, { workloadMultiplier: parseFloat(e.target.value) })}
+                    aria-label={`Workload multiplier for ${course.name}`}
+                    className="input text-sm"
+                  >
+                    {WORKLOAD_MULTIPLIERS.map(multiplier => (
+                      <option key={multiplier} value={multiplier}>{multiplier}x</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -5,6 +5,7 @@ interface PreferencesSectionProps {
   showNotifications: boolean;
   injectBadges: boolean;
   showSidebar: boolean;
+  hideCompleted: boolean;
   refreshInterval: number;
   lookaheadDays: number;
   onChange: (updates: Partial<Settings>) => void;
@@ -15,6 +16,7 @@ export function PreferencesSection({
   showNotifications,
   injectBadges,
   showSidebar,
+  hideCompleted,
   refreshInterval,
   lookaheadDays,
   onChange,
@@ -82,6 +84,23 @@ export function PreferencesSection({
               </p>
             </div>
           </label>
+
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hideCompleted}
+              onChange={(e) => onChange({ hideCompleted: e.target.checked })}
+              className="w-4 h-4 rounded border-gray-300 text-canvas-purple focus:ring-canvas-purple"
+            />
+            <div>
+              <span className="text-sm font-medium text-gray-700">
+                Hide submitted assignments
+              </span>
+              <p className="text-xs text-gray-500">
+                Submitted and excused work is never counted in totals; this hides it from the lists too
+              </p>
+            </div>
+          </label>
         </div>
 
         {/* Refresh Interval */}
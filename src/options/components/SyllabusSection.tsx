@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { getCourseLabel } from '../../utils/course-display';
+import type { SyllabusItem } from '../../services/syllabus-parser';
+import type { AssignmentInput } from '../../types';
+
+/** ISO string → value for <input type="datetime-local"> (local time) */
+function toLocalInputValue(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatDue(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function SyllabusSection() {
+  const [candidates, setCandidates] = useState<SyllabusItem[]>([]);
+  const [selected, setSelected] = useState<Set<SyllabusItem['assignmentID']>>(new Set());
+  const [tasks, setTasks] = useState<AssignmentInput[]>([]);
+  const [scanState, setScanState] = useState<'idle' | 'scanning' | 'done'>('idle');
+  const [refined, setRefined] = useState(false);
+  const [failedProfiles, setFailedProfiles] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadTasks();
+  }, []);
+
+  async function loadTasks() {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_SYLLABUS_TASKS' });
+      setTasks(response?.tasks || []);
+    } catch (error) {
+      console.error('Failed to load syllabus tasks:', error);
+    }
+  }
+
+  async function handleScan() {
+    setScanState('scanning');
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'SCAN_SYLLABI' });
+      const items: SyllabusItem[] = response?.items || [];
+      setCandidates(items);
+      setSelected(new Set(items.map(item => item.assignmentID)));
+      setRefined(response?.refined === true);
+      setFailedProfiles(response?.failedProfiles || []);
+    } catch (error) {
+      console.error('Failed to scan syllabi:', error);
+    }
+    setScanState('done');
+  }
+
+  function updateCandidate(id: SyllabusItem['assignmentID'], updates: Partial<SyllabusItem>) {
+    setCandidates(prev => prev.map(item => (item.assignmentID === id ? { ...item, ...updates } : item)));
+  }
+
+  function toggleSelected(id: SyllabusItem['assignmentID']) {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  async function handleAccept() {
+    const accepted = candidates.filter(item => selected.has(item.assignmentID));
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'ACCEPT_SYLLABUS_ITEMS', items: accepted });
+      setTasks(response?.tasks || []);
+      setCandidates(prev => prev.filter(item => !selected.has(item.assignmentID)));
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Failed to save syllabus tasks:', error);
+    }
+  }
+
+  async function handleRemove(assignmentID: AssignmentInput['assignmentID']) {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'REMOVE_SYLLABUS_TASK', assignmentID });
+      setTasks(response?.tasks || []);
+    } catch (error) {
+      console.error('Failed to remove syllabus task:', error);
+    }
+  }
+
+  const upcomingTasks = tasks.filter(task => new Date(task.dueDate) >= new Date());
+
+  return (
+    <section className="card p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-gray-800">
+          Syllabus Deadlines
+        </h2>
+        <button
+          type="button"
+          onClick={handleScan}
+          className="btn btn-secondary text-sm"
+          disabled={scanState === 'scanning'}
+        >
+          {scanState === 'scanning' ? 'Scanning...' : 'Scan syllabi'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Some instructors only post deadlines in the course syllabus. Scan your
+        included courses, check the dates found, and track the ones that are
+        real so they show up with your Canvas assignments.
+      </p>
+
+      {failedProfiles.length > 0 && (
+        <p className="text-xs text-red-600 mb-3">
+          Couldn't read syllabi from {failedProfiles.join(', ')}. Check the Canvas connection above.
+        </p>
+      )}
+
+      {scanState === 'done' && candidates.length === 0 && failedProfiles.length === 0 && (
+        <p className="text-sm text-gray-500 mb-4">
+          No new dated deliverables found in your syllabi.
+        </p>
+      )}
+
+      {candidates.length > 0 && (
+        <div className="mb-6">
+          <p className="text-xs text-gray-500 mb-2">
+            {refined
+              ? 'Found by date matching and reviewed by your local model. '
+              : 'Found by date matching. '}
+            Fix any title or date before tracking.
+          </p>
+          <div className="space-y-2">
+            {candidates.map(item => (
+              <div
+                key={item.assignmentID}
+                className={`rounded-lg border border-gray-200 p-3${selected.has(item.assignmentID) ? '' : ' opacity-60'}`}
+              >
+                <div className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(item.assignmentID)}
+                    onChange={() => toggleSelected(item.assignmentID)}
+                    aria-label={`Track ${item.title}`}
+                    className="mt-2 w-4 h-4 rounded border-gray-300 text-canvas-purple focus:ring-canvas-purple"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="grid grid-cols-[1fr_auto] gap-2">
+                      <input
+                        type="text"
+                        value={item.title}
+                        onChange={(e) => updateCandidate(item.assignmentID, { title: e.target.value })}
+                        aria-label="Title"
+                        className="input text-sm"
+                      />
+                      <input
+                        type="datetime-local"
+                        value={toLocalInputValue(item.dueDate)}
+                        onChange={(e) => {
+                          if (e.target.value) {
+                            updateCandidate(item.assignmentID, { dueDate: new Date(e.target.value).toISOString() });
+                          }
+                        }}
+                        aria-label="Due date"
+                        className="input text-sm"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {getCourseLabel(item)}
+                      {item.sourceName && ` · ${item.sourceName}`}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-1 italic truncate" title={item.excerpt}>
+                      "{item.excerpt}"
+                    </p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={handleAccept}
+            disabled={selected.size === 0}
+            className="btn btn-primary text-sm mt-3 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Track {selected.size} selected
+          </button>
+        </div>
+      )}
+
+      {upcomingTasks.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Tracked</h3>
+          <ul className="divide-y divide-gray-100">
+            {upcomingTasks.map(task => (
+              <li key={task.assignmentID} className="flex items-center justify-between py-2 gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-700 truncate">{task.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {getCourseLabel(task)} · {formatDue(task.dueDate)}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(task.assignmentID)}
+                  className="text-xs text-gray-500 hover:text-red-600"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
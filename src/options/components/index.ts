@@ -1,3 +1,5 @@
 export { CanvasSection } from './CanvasSection';
 export { AISection } from './AISection';
 export { PreferencesSection } from './PreferencesSection';
+export { CoursesSection } from './CoursesSection';
+export { SyllabusSection } from './SyllabusSection';
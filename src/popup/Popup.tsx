@@ -5,13 +5,17 @@ import { WeeklySummary } from './components/WeeklySummary';
 import { EmptyState } from './components/EmptyState';
 import { LoadingState } from './components/LoadingState';
 import { ErrorState } from './components/ErrorState';
+import { RefreshStatusBanner } from './components/RefreshStatusBanner';
 import { TabBar, type PopupTab } from './components/TabBar';
 import { UsageMeter } from './components/UsageMeter';
 import { UpgradePrompt } from './components/UpgradePrompt';
 import { AnalyticsDashboard } from './components/AnalyticsDashboard';
 import { CalendarSchedule } from './components/CalendarSchedule';
 import { useFeatureGate } from '../hooks/useFeatureGate';
-import type { Assignment, AssignmentResponse } from '../types';
+import { isAssignmentComplete } from '../utils/assignment-status';
+import { hasCanvasCredentials } from '../services/canvas-profiles';
+import { ASSIGNMENT_SORT_LABELS, type AssignmentSortKey } from '../utils/grade-impact';
+import type { Assignment, AssignmentResponse, CanvasErrorKind, RefreshStatus } from '../types';
 
 type ViewState = 'loading' | 'empty' | 'error' | 'configured' | 'unconfigured';
 
@@ -20,7 +24,11 @@ export function Popup() {
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [lastUpdated, setLastUpdated] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [errorKind, setErrorKind] = useState<CanvasErrorKind | undefined>(undefined);
+  const [refreshStatus, setRefreshStatus] = useState<RefreshStatus | null>(null);
   const [activeTab, setActiveTab] = useState<PopupTab>('assignments');
+  const [sourceFilter, setSourceFilter] = useState<string>('all');
+  const [sortBy, setSortBy] = useState<AssignmentSortKey>('due');
 
   const { isPremium, isTrial, isFree, remainingRefreshes, refresh: refreshGate } = useFeatureGate();
   const hasPremiumAccess = isPremium || isTrial;
@@ -32,11 +40,10 @@ export function Popup() {
   async function loadAssignments() {
     setViewState('loading');
     setError(null);
+    setErrorKind(undefined);
 
     try {
-      const settings = await chrome.storage.sync.get(['canvasUrl', 'apiToken']);
-
-      if (!settings.canvasUrl || !settings.apiToken) {
+      if (!(await hasCanvasCredentials())) {
         setViewState('unconfigured');
         return;
       }
@@ -45,8 +52,13 @@ export function Popup() {
         type: 'GET_ASSIGNMENTS',
       });
 
+      setRefreshStatus(response.refreshStatus ?? null);
+
       if (response.error) {
-        throw new Error(response.error);
+        setError(response.error);
+        setErrorKind(response.errorKind);
+        setViewState('error');
+        return;
       }
 
       if (!response.assignments || response.assignments.length === 0) {
@@ -82,8 +94,19 @@ export function Popup() {
     chrome.runtime.openOptionsPage();
   }
 
-  const totalMinutes = assignments.reduce((sum, a) => sum + (a.estimatedMinutes || 0), 0);
-  const assignmentCount = assignments.length;
+  // One entry per Canvas profile that contributed assignments
+  const sources = Array.from(
+    new Map(assignments.filter(a => a.source).map(a => [a.source, a.sourceName || a.source])).entries(),
+  );
+  const hasMultipleSources = sources.length > 1;
+  const visibleAssignments = hasMultipleSources && sourceFilter !== 'all'
+    ? assignments.filter(a => a.source === sourceFilter)
+    : assignments;
+
+  // Submitted/excused work stays visible in the list but never counts toward the workload
+  const openAssignments = visibleAssignments.filter(a => !isAssignmentComplete(a));
+  const totalMinutes = openAssignments.reduce((sum, a) => sum + (a.estimatedMinutes || 0), 0);
+  const assignmentCount = openAssignments.length;
 
   return (
     <div className="w-[380px] min-h-[400px] max-h-[600px] flex flex-col bg-gray-50">
@@ -131,17 +154,55 @@ export function Popup() {
             {viewState === 'error' && (
               <ErrorState
                 message={error || 'Something went wrong'}
-                onRetry={loadAssignments}
+                kind={errorKind}
+                onRetry={handleRefresh}
+                onOpenSettings={openOptions}
               />
             )}
 
             {viewState === 'configured' && (
               <>
+                {refreshStatus && (
+                  <RefreshStatusBanner
+                    status={refreshStatus}
+                    onRetry={handleRefresh}
+                    onOpenSettings={openOptions}
+                  />
+                )}
+                <div className="flex gap-2 mb-3">
+                  {hasMultipleSources && (
+                    <select
+                      value={sourceFilter}
+                      onChange={(e) => setSourceFilter(e.target.value)}
+                      className="input text-xs"
+                      aria-label="Institution"
+                    >
+                      <option value="all">All schools</option>
+                      {sources.map(([id, name]) => (
+                        <option key={id} value={id}>{name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <select
+                    value={sortBy}
+                    onChange={(e) => setSortBy(e.target.value as AssignmentSortKey)}
+                    className="input text-xs"
+                    aria-label="Sort by"
+                  >
+                    {(Object.keys(ASSIGNMENT_SORT_LABELS) as AssignmentSortKey[]).map(key => (
+                      <option key={key} value={key}>Sort: {ASSIGNMENT_SORT_LABELS[key]}</option>
+                    ))}
+                  </select>
+                </div>
                 <WeeklySummary
                   totalMinutes={totalMinutes}
                   assignmentCount={assignmentCount}
                 />
-                <AssignmentList assignments={assignments} />
+                <AssignmentList
+                  assignments={visibleAssignments}
+                  showSource={hasMultipleSources && sourceFilter === 'all'}
+                  sortBy={sortBy}
+                />
               </>
             )}
           </>
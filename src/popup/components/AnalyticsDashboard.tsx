@@ -1,11 +1,12 @@
 import React, { useEffect, useState } from 'react';
-import type { AnalyticsEntry } from '../../types';
+import type { AnalyticsEntry, ChangeCounts } from '../../types';
 
 interface Summary {
   totalMinutes: number;
   totalAssignments: number;
   avgMinutesPerDay: number;
-  byCourse: { courseName: string; minutes: number; count: number }[];
+  byCourse: { courseName: string; source?: string; color?: string; minutes: number; count: number }[];
+  changes?: ChangeCounts;
   trend: 'increasing' | 'decreasing' | 'stable';
 }
 
@@ -13,6 +14,7 @@ export function AnalyticsDashboard() {
   const [history, setHistory] = useState<AnalyticsEntry[]>([]);
   const [summary, setSummary] = useState<Summary | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sourceFilter, setSourceFilter] = useState<string>('all');
 
   useEffect(() => {
     loadAnalytics();
@@ -44,7 +46,23 @@ export function AnalyticsDashboard() {
   const trendIcon = summary.trend === 'increasing' ? '&#x2191;' : summary.trend === 'decreasing' ? '&#x2193;' : '&#x2192;';
   const trendColor = summary.trend === 'increasing' ? 'text-red-500' : summary.trend === 'decreasing' ? 'text-green-500' : 'text-gray-500';
 
-  const maxCourseMinutes = Math.max(...summary.byCourse.map(c => c.minutes), 1);
+  // Per-institution view when courses come from more than one Canvas account
+  const sources = Array.from(new Set(summary.byCourse.map(c => c.source).filter((s): s is string => !!s)));
+  const courses = sourceFilter === 'all'
+    ? summary.byCourse
+    : summary.byCourse.filter(c => c.source === sourceFilter);
+
+  const maxCourseMinutes = Math.max(...courses.map(c => c.minutes), 1);
+
+  // Churn reported by the sync engine across the same window
+  const changeParts = summary.changes
+    ? [
+      summary.changes.added > 0 ? `${summary.changes.added} new` : null,
+      summary.changes.dueDateMoved > 0 ? `${summary.changes.dueDateMoved} due dates moved` : null,
+      summary.changes.descriptionEdited > 0 ? `${summary.changes.descriptionEdited} edited` : null,
+      summary.changes.removed > 0 ? `${summary.changes.removed} removed` : null,
+    ].filter(Boolean)
+    : [];
 
   return (
     <div className="space-y-4">
@@ -93,14 +111,41 @@ export function AnalyticsDashboard() {
         </div>
       </div>
 
+      {changeParts.length > 0 && (
+        <div className="bg-white rounded-lg p-3 border border-gray-200">
+          <h3 className="text-xs font-semibold text-gray-700 mb-1">Canvas Changes (14d)</h3>
+          <p className="text-xs text-gray-500">{changeParts.join(' · ')}</p>
+        </div>
+      )}
+
       {/* Course Breakdown */}
       <div className="bg-white rounded-lg p-3 border border-gray-200">
-        <h3 className="text-xs font-semibold text-gray-700 mb-2">By Course</h3>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xs font-semibold text-gray-700">By Course</h3>
+          {sources.length > 1 && (
+            <select
+              value={sourceFilter}
+              onChange={(e) => setSourceFilter(e.target.value)}
+              className="text-xs border border-gray-200 rounded px-1 py-0.5"
+              aria-label="Institution"
+            >
+              <option value="all">All schools</option>
+              {sources.map(source => (
+                <option key={source} value={source}>{source}</option>
+              ))}
+            </select>
+          )}
+        </div>
         <div className="space-y-2">
-          {summary.byCourse.slice(0, 5).map((course, i) => (
+          {courses.slice(0, 5).map((course, i) => (
             <div key={i}>
               <div className="flex justify-between text-xs mb-0.5">
-                <span className="text-gray-700 truncate mr-2">{course.courseName}</span>
+                <span className="text-gray-700 truncate mr-2">
+                  {course.courseName}
+                  {sources.length > 1 && sourceFilter === 'all' && course.source && (
+                    <span className="text-gray-400"> · {course.source}</span>
+                  )}
+                </span>
                 <span className="text-gray-500 whitespace-nowrap">
                   {Math.round(course.minutes / 60)}h ({course.count})
                 </span>
@@ -108,7 +153,10 @@ export function AnalyticsDashboard() {
               <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
                 <div
                   className="h-full bg-canvas-purple/70 rounded-full"
-                  style={{ width: `${(course.minutes / maxCourseMinutes) * 100}%` }}
+                  style={{
+                    width: `${(course.minutes / maxCourseMinutes) * 100}%`,
+                    ...(course.color ? { backgroundColor: course.color } : {}),
+                  }}
                 />
               </div>
             </div>
@@ -1,11 +1,17 @@
 import React from 'react';
-import type { Assignment } from '../../types';
+import { getSubmissionLabel, isAssignmentComplete } from '../../utils/assignment-status';
+import { getCourseLabel } from '../../utils/course-display';
+import { formatGradePercent, getGradePointsPerHour } from '../../utils/grade-impact';
+import { isAnnouncedDateOutOfSync } from '../../services/announcement-watcher';
+import { formatReadingLength } from '../../utils/reading-length';
+import type { Assignment, EstimateRange } from '../../types';
 
 interface AssignmentCardProps {
   assignment: Assignment;
+  showSource?: boolean;
 }
 
-export function AssignmentCard({ assignment }: AssignmentCardProps) {
+export function AssignmentCard({ assignment, showSource = false }: AssignmentCardProps) {
   const formatTime = (minutes: number | null): string => {
     if (!minutes) return '—';
     if (minutes < 60) return `${minutes}m`;
@@ -14,6 +20,11 @@ export function AssignmentCard({ assignment }: AssignmentCardProps) {
     return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
   };
 
+  const formatRange = (range: EstimateRange | null | undefined): string | null => {
+    if (!range || range.high <= range.low) return null;
+    return `${formatTime(range.low)}–${formatTime(range.high)}`;
+  };
+
   const formatDueDate = (dateStr: string): string => {
     const date = new Date(dateStr);
     const now = new Date();
@@ -44,7 +55,9 @@ export function AssignmentCard({ assignment }: AssignmentCardProps) {
       project: '🎯',
       exam: '📋',
       page: '📖',
+      announcement: '📢',
       event: '📅',
+      note: '🗒️',
     };
     return icons[type] || '📝';
   };
@@ -56,16 +69,33 @@ export function AssignmentCard({ assignment }: AssignmentCardProps) {
     return 'badge badge-high';
   };
 
+  const getSubmissionBadgeClass = (label: string): string => {
+    if (label === 'Missing') return 'badge bg-red-100 text-red-700';
+    if (label === 'Submitted late') return 'badge bg-amber-100 text-amber-700';
+    return 'badge bg-green-100 text-green-700';
+  };
+
+  const isComplete = isAssignmentComplete(assignment);
+  const submissionLabel = getSubmissionLabel(assignment.submission);
+  const gradePerHour = getGradePointsPerHour(assignment);
+  const readingLength = formatReadingLength(assignment);
+  const estimateRange = formatRange(assignment.estimateRange);
+
   const handleClick = () => {
     if (assignment.htmlUrl) {
       chrome.tabs.create({ url: assignment.htmlUrl });
     }
   };
 
+  const openAnnouncement = (event: React.MouseEvent, url: string) => {
+    event.stopPropagation();
+    chrome.tabs.create({ url });
+  };
+
   return (
     <div
       onClick={handleClick}
-      className="card p-3 cursor-pointer hover:shadow-md transition-shadow group"
+      className={`card p-3 cursor-pointer hover:shadow-md transition-shadow group${isComplete ? ' opacity-60' : ''}`}
     >
       <div className="flex items-start gap-3">
         {/* Type icon */}
@@ -73,15 +103,61 @@ export function AssignmentCard({ assignment }: AssignmentCardProps) {
 
         {/* Content */}
         <div className="flex-1 min-w-0">
-          <h4 className="font-medium text-gray-800 truncate group-hover:text-canvas-purple transition-colors">
+          <h4 className={`font-medium text-gray-800 truncate group-hover:text-canvas-purple transition-colors${isComplete ? ' line-through' : ''}`}>
             {assignment.title}
           </h4>
           <p className="text-xs text-gray-500 truncate mt-0.5">
-            {assignment.courseName}
+            {assignment.courseColor && (
+              <span
+                className="inline-block w-2 h-2 rounded-full mr-1 align-middle"
+                style={{ backgroundColor: assignment.courseColor }}
+              />
+            )}
+            {getCourseLabel(assignment)}
+            {showSource && assignment.sourceName && (
+              <span className="text-gray-400"> · {assignment.sourceName}</span>
+            )}
           </p>
           <p className="text-xs text-gray-400 mt-1">
             {formatDueDate(assignment.dueDate)}
+            {readingLength && <span> · {readingLength}</span>}
+            {submissionLabel && (
+              <span className={`${getSubmissionBadgeClass(submissionLabel)} ml-2`}>
+                {submissionLabel}
+              </span>
+            )}
           </p>
+
+          {assignment.estimateBreakdown && assignment.estimateBreakdown.length > 1 && (
+            <p className="text-xs text-gray-400 mt-1">
+              {assignment.estimateBreakdown
+                .map(part => `${formatTime(part.minutes)} ${part.label.toLowerCase()}`)
+                .join(' + ')}
+            </p>
+          )}
+
+          {/* Announcements that mention this assignment */}
+          {assignment.alerts?.map(alert => (
+            <button
+              key={`${alert.announcementUrl}-${alert.kind}`}
+              type="button"
+              onClick={(e) => openAnnouncement(e, alert.announcementUrl)}
+              className={`mt-2 w-full text-left rounded px-2 py-1 text-xs ${
+                alert.kind === 'date_change' ? 'bg-amber-50 text-amber-800' : 'bg-blue-50 text-blue-800'
+              }`}
+              title={`Announcement: ${alert.announcementTitle}`}
+            >
+              <span className="font-medium">
+                {alert.kind === 'date_change' ? '📢 Date change announced' : '📢 Mentioned in an announcement'}
+              </span>
+              <span className="block truncate">{alert.excerpt}</span>
+              {isAnnouncedDateOutOfSync(alert, assignment.dueDate) && (
+                <span className="block font-medium">
+                  Canvas hasn't been updated yet; check the announcement.
+                </span>
+              )}
+            </button>
+          ))}
         </div>
 
         {/* Time estimate badge */}
@@ -91,15 +167,31 @@ export function AssignmentCard({ assignment }: AssignmentCardProps) {
         </div>
       </div>
 
-      {/* Points indicator */}
-      {assignment.pointsPossible > 0 && (
+      {/* Points, grade impact and how sure the estimate is */}
+      {(assignment.pointsPossible > 0 || estimateRange || assignment.estimationConfidence) && (
         <div className="mt-2 pt-2 border-t border-gray-50 flex items-center justify-between text-xs text-gray-400">
-          <span>{assignment.pointsPossible} pts</span>
-          {assignment.estimationConfidence && (
-            <span className="capitalize">
-              {assignment.estimationConfidence} confidence
-            </span>
-          )}
+          <span>
+            {assignment.pointsPossible > 0 && `${assignment.pointsPossible} pts`}
+            {assignment.pointsPossible > 0 && assignment.gradeImpact != null && (
+              <span title="Share of your final grade"> · {formatGradePercent(assignment.gradeImpact)} of grade</span>
+            )}
+            {assignment.pointsPossible > 0 && gradePerHour !== null && (
+              <span title="Percent of final grade per hour of estimated work">
+                {' '}· {formatGradePercent(gradePerHour)}/h
+              </span>
+            )}
+          </span>
+          <span>
+            {estimateRange && (
+              <span title="Optimistic to pessimistic estimate">{estimateRange}</span>
+            )}
+            {estimateRange && assignment.estimationConfidence && ' · '}
+            {assignment.estimationConfidence && (
+              <span className="capitalize">
+                {assignment.estimationConfidence} confidence
+              </span>
+            )}
+          </span>
         </div>
       )}
     </div>
@@ -1,14 +1,21 @@
 import React from 'react';
 import { AssignmentCard } from './AssignmentCard';
+import { isAssignmentComplete } from '../../utils/assignment-status';
+import { compareByDeadline, getDeadline } from '../../utils/assignment-dates';
+import { ASSIGNMENT_SORT_LABELS, compareByImpact, type AssignmentSortKey } from '../../utils/grade-impact';
 import type { Assignment } from '../../types';
 
 interface AssignmentListProps {
   assignments: Assignment[];
+  showSource?: boolean;
+  sortBy?: AssignmentSortKey;
 }
 
-export function AssignmentList({ assignments }: AssignmentListProps) {
-  // Group assignments by due date
-  const groupedAssignments = groupByDueLabel(assignments);
+export function AssignmentList({ assignments, showSource = false, sortBy = 'due' }: AssignmentListProps) {
+  // Group by due date, or list by grade impact when sorting by it
+  const groupedAssignments = sortBy === 'due'
+    ? groupByDueLabel(assignments)
+    : groupByImpact(assignments, sortBy);
 
   return (
     <div className="space-y-4">
@@ -19,7 +26,7 @@ export function AssignmentList({ assignments }: AssignmentListProps) {
           </h3>
           <div className="space-y-2">
             {items.map((assignment) => (
-              <AssignmentCard key={assignment.id} assignment={assignment} />
+              <AssignmentCard key={assignment.id} assignment={assignment} showSource={showSource} />
             ))}
           </div>
         </div>
@@ -28,6 +35,17 @@ export function AssignmentList({ assignments }: AssignmentListProps) {
   );
 }
 
+function groupByImpact(assignments: Assignment[], sortBy: AssignmentSortKey): Record<string, Assignment[]> {
+  const sorted = [...assignments].sort((a, b) => compareByImpact(sortBy, a, b) || compareByDeadline(a, b));
+  const open = sorted.filter(a => !isAssignmentComplete(a));
+  const completed = sorted.filter(a => isAssignmentComplete(a));
+
+  const groups: Record<string, Assignment[]> = {};
+  if (open.length > 0) groups[`By ${ASSIGNMENT_SORT_LABELS[sortBy].toLowerCase()}`] = open;
+  if (completed.length > 0) groups['✓ Completed'] = completed;
+  return groups;
+}
+
 function groupByDueLabel(assignments: Assignment[]): Record<string, Assignment[]> {
   const groups: Record<string, Assignment[]> = {};
   const now = new Date();
@@ -37,15 +55,19 @@ function groupByDueLabel(assignments: Assignment[]): Record<string, Assignment[]
   const nextWeek = new Date(today);
   nextWeek.setDate(nextWeek.getDate() + 7);
 
-  // Sort by due date
-  const sorted = [...assignments].sort((a, b) => {
-    const dateA = new Date(a.dueDate).getTime();
-    const dateB = new Date(b.dueDate).getTime();
-    return dateA - dateB;
-  });
+  // Sort by effective deadline
+  const sorted = [...assignments].sort(compareByDeadline);
+
+  const completed: Assignment[] = [];
 
   for (const assignment of sorted) {
-    const dueDate = new Date(assignment.dueDate);
+    // Finished work is collected separately and listed last
+    if (isAssignmentComplete(assignment)) {
+      completed.push(assignment);
+      continue;
+    }
+
+    const dueDate = getDeadline(assignment) ?? new Date(assignment.dueDate);
     let label: string;
 
     if (dueDate < today) {
@@ -66,5 +88,9 @@ function groupByDueLabel(assignments: Assignment[]): Record<string, Assignment[]
     groups[label].push(assignment);
   }
 
+  if (completed.length > 0) {
+    groups['✓ Completed'] = completed;
+  }
+
   return groups;
 }
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { isAssignmentComplete } from '../../utils/assignment-status';
 import type { Assignment, CalendarStudyBlock } from '../../types';
 
 interface CalendarScheduleProps {
@@ -10,13 +11,14 @@ export function CalendarSchedule({ assignments }: CalendarScheduleProps) {
   const [scheduled, setScheduled] = useState<CalendarStudyBlock[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [done, setDone] = useState(false);
+  const [pessimistic, setPessimistic] = useState(false);
 
   async function handleAutoSchedule() {
     setScheduling(true);
     setError(null);
 
     try {
-      const result = await chrome.runtime.sendMessage({ type: 'SYNC_CALENDAR' });
+      const result = await chrome.runtime.sendMessage({ type: 'SYNC_CALENDAR', pessimistic });
 
       if (result?.error) {
         throw new Error(result.error);
@@ -69,7 +71,9 @@ export function CalendarSchedule({ assignments }: CalendarScheduleProps) {
     );
   }
 
-  const schedulableCount = assignments.filter(a => a.dueDate && a.estimatedMinutes).length;
+  const schedulableCount = assignments.filter(
+    a => a.dueDate && a.estimatedMinutes && !isAssignmentComplete(a),
+  ).length;
 
   return (
     <div className="text-center py-6 px-4">
@@ -89,6 +93,15 @@ export function CalendarSchedule({ assignments }: CalendarScheduleProps) {
         </p>
       )}
 
+      <label className="flex items-center justify-center gap-2 text-xs text-gray-600 mb-3">
+        <input
+          type="checkbox"
+          checked={pessimistic}
+          onChange={(e) => setPessimistic(e.target.checked)}
+        />
+        Plan for the pessimistic estimate
+      </label>
+
       <button
         onClick={handleAutoSchedule}
         disabled={scheduling || schedulableCount === 0}
@@ -103,6 +116,7 @@ export function CalendarSchedule({ assignments }: CalendarScheduleProps) {
 
       <p className="mt-3 text-[10px] text-gray-400">
         Schedules between 8 AM - 10 PM, avoids existing events. Blocks are 60 min max.
+        {pessimistic && ' Each assignment gets the high end of its estimate range.'}
       </p>
     </div>
   );
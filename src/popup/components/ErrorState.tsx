@@ -1,22 +1,37 @@
 import React from 'react';
+import { CANVAS_ERROR_HELP } from '../../services/canvas-errors';
+import type { CanvasErrorKind } from '../../types';
 
 interface ErrorStateProps {
   message: string;
+  kind?: CanvasErrorKind;
   onRetry: () => void;
+  onOpenSettings?: () => void;
 }
 
-export function ErrorState({ message, onRetry }: ErrorStateProps) {
+export function ErrorState({ message, kind = 'unknown', onRetry, onOpenSettings }: ErrorStateProps) {
+  const help = CANVAS_ERROR_HELP[kind];
+  const showSettings = help.action === 'settings' && onOpenSettings;
+
   return (
     <div className="flex flex-col items-center justify-center py-12 px-4 text-center animate-fade-in">
       <span className="text-5xl mb-4">😕</span>
       <h2 className="text-lg font-semibold text-gray-800 mb-2">
-        Something went wrong
+        {help.title}
       </h2>
-      <p className="text-sm text-gray-500 mb-6 max-w-xs">{message}</p>
+      <p className="text-sm text-gray-500 mb-2 max-w-xs">{help.description}</p>
+      <p className="text-xs text-gray-400 mb-6 max-w-xs break-words">{message}</p>
 
-      <button onClick={onRetry} className="btn btn-secondary">
-        Try Again
-      </button>
+      <div className="flex gap-2">
+        {showSettings && (
+          <button onClick={onOpenSettings} className="btn btn-primary">
+            Open Settings
+          </button>
+        )}
+        <button onClick={onRetry} className="btn btn-secondary">
+          Try Again
+        </button>
+      </div>
     </div>
   );
 }
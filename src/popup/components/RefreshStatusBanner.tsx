@@ -0,0 +1,39 @@
+import { CANVAS_ERROR_HELP } from '../../services/canvas-errors';
+import type { RefreshStatus } from '../../types';
+
+interface RefreshStatusBannerProps {
+  status: RefreshStatus;
+  onRetry: () => void;
+  onOpenSettings: () => void;
+}
+
+/**
+ * Shown above cached assignments when the last refresh failed for one or
+ * more Canvas accounts, so the student knows the list may be stale.
+ */
+export function RefreshStatusBanner({ status, onRetry, onOpenSettings }: RefreshStatusBannerProps) {
+  if (status.errors.length === 0) return null;
+
+  return (
+    <div className="mb-3 space-y-2">
+      {status.errors.map((error, i) => {
+        const help = CANVAS_ERROR_HELP[error.kind];
+        return (
+          <div key={i} className="rounded-lg border border-amber-200 bg-amber-50 p-2 text-xs">
+            <div className="font-semibold text-amber-800">
+              {help.title}
+              {error.profileName && <span className="font-normal"> · {error.profileName}</span>}
+            </div>
+            <p className="text-amber-700 mt-0.5">{help.description}</p>
+            <button
+              onClick={help.action === 'settings' ? onOpenSettings : onRetry}
+              className="mt-1 font-medium text-amber-900 underline"
+            >
+              {help.action === 'settings' ? 'Open Settings' : 'Try Again'}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
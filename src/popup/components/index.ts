@@ -5,3 +5,4 @@ export { AssignmentCard } from './AssignmentCard';
 export { EmptyState } from './EmptyState';
 export { LoadingState } from './LoadingState';
 export { ErrorState } from './ErrorState';
+export { RefreshStatusBanner } from './RefreshStatusBanner';
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { fromAINetworkFailure, fromAIResponse } from './ai-errors';
+
+const openAIError = (message: string, code: string) => JSON.stringify({ error: { message, type: 'invalid_request_error', code } });
+
+describe('fromAIResponse', () => {
+  it('reports a rejected key without the status, so it is not retried', () => {
+    const error = fromAIResponse('OpenAI', 401, openAIError('Incorrect API key provided', 'invalid_api_key'));
+    expect(error).toMatchObject({ kind: 'auth', status: 401, message: 'OpenAI rejected the API key: Incorrect API key provided' });
+    expect(error.message).not.toContain('401');
+  });
+
+  it('tells an empty account apart from rate limiting', () => {
+    expect(fromAIResponse('OpenAI', 429, openAIError('You exceeded your current quota', 'insufficient_quota')).kind).toBe('quota');
+
+    const rateLimited = fromAIResponse('OpenAI', 429, openAIError('Rate limit reached', 'rate_limit_exceeded'));
+    expect(rateLimited.kind).toBe('rate_limited');
+    expect(rateLimited.message).toBe('OpenAI API error (429): Rate limit reached');
+  });
+
+  it('reports unknown models', () => {
+    expect(fromAIResponse('OpenAI', 404, openAIError('The model `gpt-9` does not exist', 'model_not_found')).kind).toBe('model');
+    expect(fromAIResponse('OpenAI', 400, openAIError('No such model', 'model_not_found')).kind).toBe('model');
+  });
+
+  it('keeps a non-JSON body as the detail of a server error', () => {
+    expect(fromAIResponse('Ollama', 502, 'Bad Gateway')).toMatchObject({
+      kind: 'unavailable',
+      message: 'Ollama API error (502): Bad Gateway',
+    });
+  });
+
+  it('falls back to an unknown failure', () => {
+    expect(fromAIResponse('OpenAI', 400, openAIError('Invalid schema', 'invalid_schema')).kind).toBe('unknown');
+  });
+});
+
+describe('fromAINetworkFailure', () => {
+  it('reports the provider as unreachable', () => {
+    expect(fromAINetworkFailure('Ollama', new TypeError('Failed to fetch'))).toMatchObject({
+      kind: 'unavailable',
+      status: null,
+      message: 'Could not reach Ollama (Failed to fetch)',
+    });
+  });
+});
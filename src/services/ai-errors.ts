@@ -0,0 +1,66 @@
+/**
+ * AI Provider Errors
+ * Typed failures for estimation requests, so a bad key or an empty account
+ * is reported as such instead of being retried like an outage.
+ *
+ * Transient failures keep the "<provider> API error (<status>): <message>"
+ * form because withRetry decides what is transient by matching on the status
+ * code. Permanent ones (bad key, no credit, unknown model) never carry the
+ * status in their message, so they fail fast and fall back to heuristics.
+ */
+
+import type { AIErrorKind } from '../types';
+
+export class AIProviderError extends Error {
+  readonly kind: AIErrorKind;
+  readonly status: number | null;
+
+  constructor(kind: AIErrorKind, message: string, status: number | null = null) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+/**
+ * Classify a non-OK Chat Completions response. OpenAI-style bodies look like
+ * {"error": {"message", "type", "code"}}; anything else is used as text.
+ */
+export function fromAIResponse(provider: string, status: number, body: string): AIProviderError {
+  let detail = body;
+  let code = '';
+  try {
+    const parsed = JSON.parse(body);
+    detail = parsed?.error?.message || body;
+    code = parsed?.error?.code || parsed?.error?.type || '';
+  } catch {
+    // Not JSON; keep the raw text
+  }
+
+  if (status === 401) {
+    return new AIProviderError('auth', `${provider} rejected the API key: ${detail}`, status);
+  }
+  if (code === 'insufficient_quota') {
+    return new AIProviderError('quota', `${provider} account has no remaining credit: ${detail}`, status);
+  }
+  if (status === 404 || code === 'model_not_found') {
+    return new AIProviderError('model', `${provider} model is not available: ${detail}`, status);
+  }
+  if (status === 429) {
+    return new AIProviderError('rate_limited', `${provider} API error (${status}): ${detail}`, status);
+  }
+  if (status >= 500) {
+    return new AIProviderError('unavailable', `${provider} API error (${status}): ${detail}`, status);
+  }
+
+  return new AIProviderError('unknown', `${provider} request failed: ${detail}`, status);
+}
+
+/**
+ * Classify a fetch() that never produced a response
+ */
+export function fromAINetworkFailure(provider: string, error: unknown): AIProviderError {
+  const detail = error instanceof Error ? error.message : String(error);
+  return new AIProviderError('unavailable', `Could not reach ${provider} (${detail})`);
+}
@@ -4,7 +4,7 @@
  * Stores daily snapshots in chrome.storage.local (max 90 entries).
  */
 
-import type { AnalyticsEntry } from '../types';
+import type { AnalyticsEntry, AssignmentChangeSet, ChangeCounts } from '../types';
 
 const ANALYTICS_KEY = 'analyticsHistory';
 const MAX_ENTRIES = 90;
@@ -12,28 +12,35 @@ const MAX_ENTRIES = 90;
 export class AnalyticsService {
   /**
    * Record a daily snapshot from the current assignments.
-   * Called after each background refresh.
+   * Called after each background refresh; the refresh's change set is added to
+   * the day's running change counts.
    */
   async recordSnapshot(assignments: Array<{
     courseName?: string;
+    source?: string;
+    color?: string;
     estimatedMinutes?: number | null;
     [key: string]: unknown;
-  }>): Promise<void> {
+  }>, changeSet?: AssignmentChangeSet): Promise<void> {
     const today = new Date().toISOString().split('T')[0];
     const history = await this.getHistory();
+    const previousToday = history.find(e => e.date === today);
 
     // Don't duplicate today's entry — overwrite it
     const filtered = history.filter(e => e.date !== today);
 
-    const byCourseMap = new Map<string, { minutes: number; count: number }>();
+    // Keyed by institution + course so same-named courses at two schools stay apart
+    const byCourseMap = new Map<string, { courseName: string; source?: string; color?: string; minutes: number; count: number }>();
     let totalMinutes = 0;
 
     for (const a of assignments) {
       const mins = a.estimatedMinutes || 0;
       totalMinutes += mins;
-      const course = a.courseName || 'Unknown';
-      const existing = byCourseMap.get(course) || { minutes: 0, count: 0 };
-      byCourseMap.set(course, {
+      const courseName = a.courseName || 'Unknown';
+      const key = `${a.source ?? ''}\u0000${courseName}`;
+      const existing = byCourseMap.get(key) || { courseName, source: a.source, color: a.color, minutes: 0, count: 0 };
+      byCourseMap.set(key, {
+        ...existing,
         minutes: existing.minutes + mins,
         count: existing.count + 1,
       });
@@ -43,10 +50,8 @@ export class AnalyticsService {
       date: today,
       totalMinutes,
       assignmentCount: assignments.length,
-      byCourse: Array.from(byCourseMap.entries()).map(([courseName, data]) => ({
-        courseName,
-        ...data,
-      })),
+      byCourse: Array.from(byCourseMap.values()),
+      changes: addChangeCounts(previousToday?.changes, changeSet),
     };
 
     filtered.push(entry);
@@ -82,7 +87,8 @@ export class AnalyticsService {
     totalMinutes: number;
     totalAssignments: number;
     avgMinutesPerDay: number;
-    byCourse: { courseName: string; minutes: number; count: number }[];
+    byCourse: { courseName: string; source?: string; color?: string; minutes: number; count: number }[];
+    changes: ChangeCounts;
     trend: 'increasing' | 'decreasing' | 'stable';
   }> {
     const recent = await this.getRecentHistory(days);
@@ -93,6 +99,7 @@ export class AnalyticsService {
         totalAssignments: 0,
         avgMinutesPerDay: 0,
         byCourse: [],
+        changes: addChangeCounts(undefined),
         trend: 'stable',
       };
     }
@@ -100,18 +107,27 @@ export class AnalyticsService {
     const totalMinutes = recent.reduce((sum, e) => sum + e.totalMinutes, 0);
     const totalAssignments = recent.reduce((sum, e) => sum + e.assignmentCount, 0);
 
-    // Aggregate by course
-    const courseMap = new Map<string, { minutes: number; count: number }>();
+    // Aggregate by institution + course
+    const courseMap = new Map<string, { courseName: string; source?: string; color?: string; minutes: number; count: number }>();
     for (const entry of recent) {
       for (const c of entry.byCourse) {
-        const existing = courseMap.get(c.courseName) || { minutes: 0, count: 0 };
-        courseMap.set(c.courseName, {
+        const key = `${c.source ?? ''}\u0000${c.courseName}`;
+        const existing = courseMap.get(key) || { courseName: c.courseName, source: c.source, color: c.color, minutes: 0, count: 0 };
+        courseMap.set(key, {
+          ...existing,
           minutes: existing.minutes + c.minutes,
           count: existing.count + c.count,
         });
       }
     }
 
+    const changes = recent.reduce<ChangeCounts>((sum, e) => ({
+      added: sum.added + (e.changes?.added ?? 0),
+      removed: sum.removed + (e.changes?.removed ?? 0),
+      dueDateMoved: sum.dueDateMoved + (e.changes?.dueDateMoved ?? 0),
+      descriptionEdited: sum.descriptionEdited + (e.changes?.descriptionEdited ?? 0),
+    }), addChangeCounts(undefined));
+
     // Simple trend: compare first half vs second half
     const mid = Math.floor(recent.length / 2);
     const firstHalf = recent.slice(0, mid).reduce((s, e) => s + e.totalMinutes, 0);
@@ -126,13 +142,23 @@ export class AnalyticsService {
       totalMinutes,
       totalAssignments,
       avgMinutesPerDay: Math.round(totalMinutes / recent.length),
-      byCourse: Array.from(courseMap.entries()).map(([courseName, data]) => ({
-        courseName,
-        ...data,
-      })).sort((a, b) => b.minutes - a.minutes),
+      byCourse: Array.from(courseMap.values()).sort((a, b) => b.minutes - a.minutes),
+      changes,
       trend,
     };
   }
 }
 
+/**
+ * Add one refresh's change set to a running day total
+ */
+function addChangeCounts(counts: ChangeCounts | undefined, changeSet?: AssignmentChangeSet): ChangeCounts {
+  return {
+    added: (counts?.added ?? 0) + (changeSet?.added.length ?? 0),
+    removed: (counts?.removed ?? 0) + (changeSet?.removed.length ?? 0),
+    dueDateMoved: (counts?.dueDateMoved ?? 0) + (changeSet?.dueDateMoved.length ?? 0),
+    descriptionEdited: (counts?.descriptionEdited ?? 0) + (changeSet?.descriptionEdited.length ?? 0),
+  };
+}
+
 export const analyticsService = new AnalyticsService();
@@ -0,0 +1,135 @@
+/**
+ * Announcement Watcher
+ * Instructors often announce an extension or an extra requirement instead of
+ * editing the assignment. Each refresh reads the last two weeks of course
+ * announcements and flags the ones that mention a tracked assignment, marking
+ * those that talk about a date change. Alerts are stored in
+ * chrome.storage.local as `announcementAlerts` and shown on the assignment in
+ * the popup and sidebar.
+ */
+
+import { applyTimeOfDay, findDateMentions } from '../utils/date-mentions';
+import type { AssignmentAlert, AssignmentInput } from '../types';
+
+export const ANNOUNCEMENT_ALERTS_KEY = 'announcementAlerts';
+export const ANNOUNCEMENT_LOOKBACK_DAYS = 14;
+
+/** A course announcement, as returned by CanvasAPI.getAnnouncements. */
+export interface CourseAnnouncement {
+  id: number;
+  courseId: number;
+  title: string;
+  message: string;
+  postedAt: string;
+  htmlUrl: string;
+}
+
+/** Wording that means a deadline moved */
+const DATE_CHANGE =
+  /\b(extend(?:ed|ing)?|extensions?|postpone(?:d)?|push(?:ed|ing)? back|pushed to|moved?|moving|reschedul(?:e|ed|ing)|delay(?:ed)?|now due|new due date|due date (?:is|has) changed|changed? the due date|instead of)\b/i;
+
+const MIN_PHRASE_LENGTH = 4;
+
+/**
+ * Match announcements to the assignments of the same course. One alert per
+ * assignment and announcement; a sentence about a date change wins over a
+ * plain mention. Newest announcements come first.
+ */
+export function detectAnnouncementAlerts(
+  announcements: CourseAnnouncement[],
+  assignments: AssignmentInput[],
+): AssignmentAlert[] {
+  const alerts: AssignmentAlert[] = [];
+
+  for (const announcement of announcements) {
+    const sentences = splitSentences(announcement.title, announcement.message);
+    const courseAssignments = assignments.filter(a => a.courseId === announcement.courseId);
+
+    for (const assignment of courseAssignments) {
+      const phrases = getMentionPhrases(assignment.title);
+      const mentions = sentences.filter(sentence => phrases.some(phrase => containsPhrase(sentence, phrase)));
+      if (mentions.length === 0) continue;
+
+      const dateChange = mentions.find(sentence => DATE_CHANGE.test(sentence));
+      const excerpt = dateChange || mentions[0];
+
+      alerts.push({
+        assignmentID: assignment.assignmentID,
+        kind: dateChange ? 'date_change' : 'mention',
+        announcementTitle: announcement.title,
+        announcementUrl: announcement.htmlUrl,
+        postedAt: announcement.postedAt,
+        excerpt: excerpt.length > 240 ? `${excerpt.slice(0, 240)}...` : excerpt,
+        announcedDate: dateChange ? getAnnouncedDate(dateChange, new Date(announcement.postedAt)) : null,
+      });
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Whether an announced date falls on a different day than the one Canvas
+ * shows, i.e. the assignment itself was not updated
+ */
+export function isAnnouncedDateOutOfSync(alert: AssignmentAlert, dueDate: string | null | undefined): boolean {
+  if (!alert.announcedDate) return false;
+  if (!dueDate) return true;
+  return new Date(alert.announcedDate).toDateString() !== new Date(dueDate).toDateString();
+}
+
+/**
+ * The new date in a "moved to ..." sentence: the last one written, since
+ * "from Oct 3 to Oct 10" ends with the new date
+ */
+function getAnnouncedDate(sentence: string, postedAt: Date): string | null {
+  const dates = findDateMentions(sentence, postedAt);
+  if (dates.length === 0) return null;
+
+  const { date } = dates[dates.length - 1];
+  applyTimeOfDay(date, sentence);
+  return date.toISOString();
+}
+
+/**
+ * The announcement title plus each sentence / line of its body, as plain text
+ */
+function splitSentences(title: string, html: string): string[] {
+  const text = html
+    .replace(/<br\s*\/?>|<\/(p|li|div|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&#39;|&rsquo;/g, "'")
+    .replace(/&quot;/g, '"');
+
+  return [title, ...text.split(/\n|(?<=[.!?])\s+(?=[A-Z])/)]
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Ways an announcement might refer to an assignment: its full title, and for
+ * titles like "Lab 4: Enzyme Kinetics" the short "Lab 4" head
+ */
+function getMentionPhrases(title: string): string[] {
+  const phrases = new Set<string>();
+
+  const full = normalize(title);
+  if (full.length >= MIN_PHRASE_LENGTH) phrases.add(full);
+
+  const head = normalize(title.split(/[:(\-–—]/)[0]);
+  const isSpecific = /\d/.test(head) || head.split(' ').length >= 2;
+  if (head.length >= MIN_PHRASE_LENGTH && isSpecific) phrases.add(head);
+
+  return Array.from(phrases);
+}
+
+function containsPhrase(sentence: string, phrase: string): boolean {
+  return ` ${normalize(sentence)} `.includes(` ${phrase} `);
+}
+
+/** Lowercase words and numbers only, so "Essay #1" matches "essay 1" */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
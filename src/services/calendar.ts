@@ -4,7 +4,8 @@
  * Uses chrome.identity for OAuth2 with Google Calendar API.
  */
 
-import type { CalendarStudyBlock } from '../types';
+import { compareByDeadline, getDeadline, isNotYetUnlocked } from '../utils/assignment-dates';
+import type { CalendarStudyBlock, EstimateRange } from '../types';
 
 const CALENDAR_API = 'https://www.googleapis.com/calendar/v3';
 
@@ -17,7 +18,10 @@ interface AssignmentInput {
   id: string | number;
   title: string;
   dueDate: string;
+  unlockAt?: string | null;
+  lockAt?: string | null;
   estimatedMinutes: number | null;
+  estimateRange?: EstimateRange | null;
 }
 
 export class CalendarService {
@@ -138,21 +142,27 @@ export class CalendarService {
    * - Study blocks are 60 min max (split larger estimates)
    * - Must be before the assignment due date
    * - Avoid existing busy times
+   * - With `pessimistic`, plan for the high end of each estimate's range
    */
-  async autoSchedule(assignments: AssignmentInput[]): Promise<CalendarStudyBlock[]> {
+  async autoSchedule(
+    assignments: AssignmentInput[],
+    { pessimistic = false }: { pessimistic?: boolean } = {},
+  ): Promise<CalendarStudyBlock[]> {
     if (!this.accessToken) await this.authenticate();
 
     const busySlots = await this.getFreeBusySlots(30);
     const scheduled: CalendarStudyBlock[] = [];
 
-    // Sort by due date (earliest first)
+    // Sort by deadline (earliest first)
     const sorted = [...assignments]
-      .filter(a => a.dueDate && a.estimatedMinutes && a.estimatedMinutes > 0)
-      .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+      .filter(a => getDeadline(a) && a.estimatedMinutes && a.estimatedMinutes > 0)
+      .sort(compareByDeadline);
 
     for (const assignment of sorted) {
-      const totalMinutes = assignment.estimatedMinutes!;
-      const dueDate = new Date(assignment.dueDate);
+      const totalMinutes = pessimistic
+        ? Math.max(assignment.estimateRange?.high ?? 0, assignment.estimatedMinutes!)
+        : assignment.estimatedMinutes!;
+      const dueDate = getDeadline(assignment)!;
       const blockSize = Math.min(60, totalMinutes);
       const numBlocks = Math.ceil(totalMinutes / blockSize);
 
@@ -161,6 +171,13 @@ export class CalendarService {
       cursor.setMinutes(0, 0, 0);
       cursor.setHours(cursor.getHours() + 1); // Start from next full hour
 
+      // Don't plan work before the assignment opens
+      if (isNotYetUnlocked(assignment, cursor)) {
+        cursor.setTime(new Date(assignment.unlockAt!).getTime());
+        cursor.setMinutes(0, 0, 0);
+        cursor.setHours(cursor.getHours() + 1);
+      }
+
       while (blocksScheduled < numBlocks && cursor < dueDate) {
         const hour = cursor.getHours();
 
@@ -3,7 +3,13 @@
  * Handles all communication with the Canvas LMS API
  */
 
-import { canvasRateLimiter, withRetry } from '../utils/rate-limiter';
+import { createCanvasRateLimiter, isRateLimitError, withRetry, type RateLimiter } from '../utils/rate-limiter';
+import { CanvasError, fromNetworkFailure, fromResponse } from './canvas-errors';
+import { compareByDeadline } from '../utils/assignment-dates';
+import { countPdfPages, countWords } from '../utils/reading-length';
+import type { SyllabusSource } from './syllabus-parser';
+import type { CourseAnnouncement } from './announcement-watcher';
+import type { AssignmentType, DiscussionDetails, QuizDetails, RubricCriterion, SubmissionState } from '../types';
 
 interface Course {
   id: number;
@@ -11,6 +17,8 @@ interface Course {
   course_code: string;
   enrollments?: Enrollment[];
   workflow_state: string;
+  apply_assignment_group_weights?: boolean;
+  syllabus_body?: string | null;
 }
 
 interface Enrollment {
@@ -24,73 +32,420 @@ interface Assignment {
   id: number;
   name: string;
   due_at: string | null;
+  unlock_at: string | null;
+  lock_at: string | null;
+  all_dates?: AssignmentDate[];
   points_possible: number | null;
   html_url: string;
   submission_types: string[];
   description: string | null;
   course_id: number;
+  submission?: Submission;
+  quiz_id?: number;
+  is_quiz_assignment?: boolean;
+  is_quiz_lti_assignment?: boolean;
+  discussion_topic?: { id: number };
+  external_tool_tag_attributes?: { url: string | null };
+  rubric?: RawRubricCriterion[];
 }
 
-interface NormalizedAssignment {
+/**
+ * One entry of an assignment's `all_dates`: the base dates ("Everyone") or an
+ * override for a section, group, or individual students. For a student token
+ * Canvas only lists the entries that apply to that student.
+ */
+interface AssignmentDate {
+  id?: number;
+  base?: boolean;
+  title?: string;
+  due_at: string | null;
+  unlock_at: string | null;
+  lock_at: string | null;
+}
+
+interface RawRubricCriterion {
+  id: string;
+  description: string | null;
+  long_description: string | null;
+  points: number | null;
+}
+
+interface AssignmentGroup {
+  id: number;
+  name: string;
+  group_weight: number | null;
+  assignments?: Array<{
+    id: number;
+    points_possible: number | null;
+    omit_from_final_grade?: boolean;
+  }>;
+}
+
+interface CourseNickname {
+  course_id: number;
+  name: string;
+  nickname: string;
+}
+
+/**
+ * The student's own course nicknames and dashboard colors, keyed by course id
+ */
+interface CoursePreferences {
+  nicknames: Map<number, string>;
+  colors: Map<number, string>;
+}
+
+/** An announcement as returned by /announcements (a discussion topic). */
+interface RawAnnouncement {
   id: number;
   title: string;
-  type: string;
+  message: string | null;
+  posted_at: string | null;
+  context_code: string;
+  html_url: string;
+}
+
+/** A Classic Quiz, as listed by /courses/:id/quizzes. */
+interface ClassicQuiz {
+  id: number;
+  question_count: number | null;
+  time_limit: number | null;
+  allowed_attempts: number | null;
+}
+
+/** A New Quiz from the quiz API (/api/quiz/v1), keyed by its assignment id. */
+interface NewQuiz {
+  id: number | string;
+  quiz_settings?: {
+    has_time_limit?: boolean;
+    session_time_limit_in_seconds?: number | null;
+    multiple_attempts?: {
+      multiple_attempts_enabled?: boolean;
+      attempt_limit?: boolean;
+      max_attempts?: number | null;
+    } | null;
+  } | null;
+}
+
+/** A discussion topic, as returned by /courses/:id/discussion_topics/:id. */
+interface DiscussionTopic {
+  id: number;
+  message: string | null;
+  discussion_subentry_count: number;
+}
+
+/** One entry of a discussion's full view, with its nested replies. */
+interface DiscussionEntry {
+  id: number;
+  message?: string | null;
+  deleted?: boolean;
+  replies?: DiscussionEntry[];
+}
+
+/** A course module with its items (include[]=items&include[]=content_details). */
+interface Module {
+  id: number;
+  name: string;
+  position: number;
+  unlock_at: string | null;
+  items?: ModuleItem[];
+}
+
+interface ModuleItem {
+  id: number;
+  title: string;
+  type: 'Page' | 'File' | 'Assignment' | 'Quiz' | 'Discussion' | 'SubHeader' | 'ExternalUrl' | 'ExternalTool';
+  content_id?: number;
+  page_url?: string;
+  html_url?: string;
+  completion_requirement?: { type: string; completed?: boolean };
+  content_details?: { due_at?: string | null; unlock_at?: string | null; lock_at?: string | null };
+}
+
+interface WikiPage {
+  page_id: number;
+  url: string;
+  updated_at: string;
+  body?: string | null;
+}
+
+interface CanvasFile {
+  id: number;
+  display_name: string;
+  'content-type': string;
+  size: number;
+  url: string;
+  updated_at: string;
+}
+
+/** Module items whose due date a reading before them inherits. */
+const GRADED_MODULE_ITEM_TYPES = new Set<ModuleItem['type']>(['Assignment', 'Quiz', 'Discussion']);
+
+/** Files that count as readings (PDF, Word, PowerPoint, EPUB, plain text). */
+const READING_FILE_TYPES = /pdf|msword|wordprocessingml|powerpoint|presentationml|epub|text\/plain/i;
+
+/** PDFs larger than this aren't downloaded just to count pages. */
+const MAX_PDF_BYTES = 15 * 1024 * 1024;
+
+/**
+ * Reading lengths in chrome.storage.local, so an unchanged reading is only
+ * downloaded once, not on every refresh: PDF page counts by
+ * "<fileId>:<updated_at>" and Page word counts by
+ * "<courseId>:<pageUrl>:<updated_at>". Only the newest entries are kept.
+ */
+const PDF_PAGE_COUNTS_KEY = 'pdfPageCounts';
+const PAGE_WORD_COUNTS_KEY = 'pageWordCounts';
+const MAX_READING_LENGTHS = 500;
+
+/** Course ids per /announcements request, to keep the query string short. */
+const ANNOUNCEMENT_COURSES_PER_REQUEST = 10;
+
+/** Assignment ids per /assignments request, for the same reason. */
+const ASSIGNMENT_IDS_PER_REQUEST = 50;
+
+interface Submission {
+  workflow_state: 'submitted' | 'unsubmitted' | 'graded' | 'pending_review';
+  submitted_at: string | null;
+  missing: boolean;
+  late: boolean;
+  excused: boolean | null;
+}
+
+type PlannableType =
+  | 'assignment'
+  | 'quiz'
+  | 'discussion_topic'
+  | 'sub_assignment'
+  | 'wiki_page'
+  | 'announcement'
+  | 'calendar_event'
+  | 'planner_note'
+  | 'assessment_request';
+
+interface PlannerItem {
+  plannable_id: number;
+  plannable_type: PlannableType;
+  plannable_date: string;
+  course_id?: number;
+  context_name?: string;
+  html_url?: string;
+  plannable: {
+    id: number;
+    title: string;
+    due_at?: string | null;
+    todo_date?: string | null;
+    points_possible?: number | null;
+    assignment_id?: number | null;
+    details?: string | null;
+  };
+  submissions: PlannerSubmissions | false;
+  planner_override: { marked_complete: boolean; dismissed: boolean } | null;
+}
+
+interface PlannerSubmissions {
+  submitted: boolean;
+  excused: boolean;
+  graded: boolean;
+  late: boolean;
+  missing: boolean;
+}
+
+interface NormalizedAssignment {
+  id: number | string;
+  title: string;
+  type: AssignmentType;
   dueDate: string | null;
+  unlockAt: string | null;
+  lockAt: string | null;
   courseName: string;
+  courseNickname: string | null;
+  courseColor: string | null;
   courseId: number;
   pointsPossible: number | null;
   htmlUrl: string;
   submissionTypes: string[];
   description: string;
+  submission: SubmissionState | null;
+  rubric: RubricCriterion[] | null;
+  gradeImpact: number | null;
+  readingWords: number | null;
+  readingPages: number | null;
+  quiz: QuizDetails | null;
+  discussion: DiscussionDetails | null;
+  markedComplete: boolean;
+  dismissed: boolean;
+}
+
+const PLANNABLE_TYPE_MAP: Record<PlannableType, AssignmentType> = {
+  assignment: 'assignment',
+  quiz: 'quiz',
+  discussion_topic: 'discussion',
+  sub_assignment: 'discussion',
+  wiki_page: 'page',
+  announcement: 'announcement',
+  calendar_event: 'event',
+  planner_note: 'note',
+  assessment_request: 'assignment'
+};
+
+/**
+ * Supplies OAuth2 access tokens to CanvasAPI and refreshes them on demand.
+ * Implemented by CanvasAuthService; kept as an interface so this module stays
+ * free of chrome.storage access.
+ */
+export interface CanvasTokenProvider {
+  getAccessToken(): Promise<string>;
+  refreshAccessToken(): Promise<string>;
 }
 
 export class CanvasAPI {
   private baseUrl: string | null;
   private apiToken: string | null;
+  private tokenProvider: CanvasTokenProvider | null;
+  private rateLimiter: RateLimiter;
 
   constructor() {
     this.baseUrl = null;
     this.apiToken = null;
+    this.tokenProvider = null;
+    this.rateLimiter = createCanvasRateLimiter();
   }
 
   /**
    * Configure the API with Canvas URL and token
    */
   configure(baseUrl: string, apiToken: string): void {
+    this.setBaseUrl(baseUrl);
+    this.apiToken = apiToken;
+    this.tokenProvider = null;
+  }
+
+  /**
+   * Configure the API with Canvas URL and an OAuth2 token provider
+   */
+  configureOAuth(baseUrl: string, tokenProvider: CanvasTokenProvider): void {
+    this.setBaseUrl(baseUrl);
+    this.apiToken = null;
+    this.tokenProvider = tokenProvider;
+  }
+
+  private setBaseUrl(baseUrl: string): void {
     this.baseUrl = baseUrl.replace(/\/+$/, '');
     if (!this.baseUrl.includes('/api/v1')) {
       this.baseUrl = `${this.baseUrl}/api/v1`;
     }
-    this.apiToken = apiToken;
   }
 
   /**
-   * Make an authenticated request to the Canvas API
+   * Current bearer token — the pasted token, or an OAuth access token
    */
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    if (!this.baseUrl || !this.apiToken) {
+  private async getBearerToken(): Promise<string> {
+    if (this.tokenProvider) {
+      return await this.tokenProvider.getAccessToken();
+    }
+    return this.apiToken as string;
+  }
+
+  /**
+   * Make an authenticated request to the Canvas API and return the raw response.
+   * Accepts either an endpoint relative to the API root or an absolute URL
+   * (pagination links from the Link header are absolute). Absolute URLs must
+   * be on the configured Canvas host; the token is never sent anywhere else.
+   */
+  private async fetchResponse(endpointOrUrl: string, options: RequestInit = {}): Promise<Response> {
+    if (!this.baseUrl || (!this.apiToken && !this.tokenProvider)) {
       throw new Error('Canvas API not configured. Please set URL and token.');
     }
 
-    const url = `${this.baseUrl}${endpoint}`;
-    const headers = {
-      'Authorization': `Bearer ${this.apiToken}`,
-      'Content-Type': 'application/json',
-      ...options.headers
+    const url = /^https?:\/\//.test(endpointOrUrl) ? endpointOrUrl : `${this.baseUrl}${endpointOrUrl}`;
+    const origin = new URL(url).origin;
+    if (origin !== new URL(this.baseUrl).origin) {
+      throw new CanvasError('unknown', `Refusing to send Canvas credentials to ${origin}`);
+    }
+    const send = async () => {
+      const token = await this.getBearerToken();
+      try {
+        return await fetch(url, {
+          ...options,
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+            ...options.headers
+          }
+        });
+      } catch (error) {
+        throw fromNetworkFailure(error);
+      }
     };
 
-    await canvasRateLimiter.acquire();
+    // Each attempt goes back through the limiter so retries honour any pause
+    return withRetry(() => this.rateLimiter.schedule(async () => {
+      let response = await send();
 
-    return withRetry(async () => {
-      const response = await fetch(url, { ...options, headers });
+      // OAuth access tokens expire hourly; refresh once and replay the request
+      if (response.status === 401 && this.tokenProvider) {
+        await this.tokenProvider.refreshAccessToken();
+        response = await send();
+      }
+
+      this.recordRateLimitHeaders(response);
 
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Canvas API error (${response.status}): ${errorText}`);
+        const error = fromResponse(response.status, await response.text());
+        if (response.status === 403 && isRateLimitError(error)) {
+          this.rateLimiter.recordThrottle();
+        }
+        throw error;
       }
 
-      return await response.json();
-    });
+      return response;
+    }), 3);
+  }
+
+  /**
+   * Feed Canvas' cost-budget headers back into the rate limiter
+   */
+  private recordRateLimitHeaders(response: Response): void {
+    const remaining = response.headers.get('X-Rate-Limit-Remaining');
+    if (remaining === null) return;
+
+    const cost = response.headers.get('X-Request-Cost');
+    this.rateLimiter.recordQuota(parseFloat(remaining), cost ? parseFloat(cost) : 0);
+  }
+
+  /**
+   * Make an authenticated request to the Canvas API
+   */
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.fetchResponse(endpoint, options);
+    return await parseJson<T>(response);
+  }
+
+  /**
+   * Iterate over every page of a paginated Canvas collection.
+   * Follows the `Link: <...>; rel="next"` header until Canvas stops sending one.
+   * Each page goes through the rate limiter separately.
+   */
+  private async *paginate<T>(endpoint: string): AsyncGenerator<T[]> {
+    let next: string | null = endpoint;
+
+    while (next) {
+      const response = await this.fetchResponse(next);
+      const page = await parseJson<T[]>(response);
+      yield page;
+      next = parseNextLink(response.headers.get('Link'));
+    }
+  }
+
+  /**
+   * Fetch every page of a paginated Canvas collection into a single array
+   */
+  private async requestAll<T>(endpoint: string): Promise<T[]> {
+    const items: T[] = [];
+    for await (const page of this.paginate<T>(endpoint)) {
+      items.push(...page);
+    }
+    return items;
   }
 
   /**
@@ -107,9 +462,10 @@ export class CanvasAPI {
   }
 
   /**
-   * Get all active courses with enrollment scores
+   * Get all active student courses with enrollment scores
+   * (plus any other `include[]` fields asked for)
    */
-  private async fetchAllCourses(): Promise<Course[]> {
+  private async fetchAllCourses(include: string[] = []): Promise<Course[]> {
     const params = new URLSearchParams({
       per_page: '100',
       enrollment_state: 'active',
@@ -117,129 +473,850 @@ export class CanvasAPI {
       state: 'available',
       'include[]': 'total_scores'
     });
+    for (const field of include) {
+      params.append('include[]', field);
+    }
 
-    return await this.request<Course[]>(`/courses?${params}`);
+    return await this.requestAll<Course>(`/courses?${params}`);
   }
 
   /**
-   * Filter courses to only include "graded" courses
-   * A graded course has either computed_current_score or computed_final_score set
-   * This filters out clubs, orientations, and other non-academic courses
+   * List every active student enrollment (for the Options course manager)
    */
-  private filterGradedCourses(courses: Course[]): Course[] {
-    return courses.filter(course => {
-      const enrollment = course.enrollments?.[0];
-      if (!enrollment) return false;
+  async getCourses(): Promise<Array<{
+    id: number;
+    name: string;
+    courseCode: string;
+    canvasNickname: string | null;
+    canvasColor: string | null;
+  }>> {
+    const [courses, preferences] = await Promise.all([
+      this.fetchAllCourses(),
+      this.fetchCoursePreferences()
+    ]);
 
-      // Course is graded if it has any score computed
-      const hasCurrentScore = enrollment.computed_current_score !== null;
-      const hasFinalScore = enrollment.computed_final_score !== null;
+    return courses.map(course => ({
+      id: course.id,
+      name: course.name,
+      courseCode: course.course_code,
+      canvasNickname: preferences.nicknames.get(course.id) ?? null,
+      canvasColor: preferences.colors.get(course.id) ?? null
+    }));
+  }
 
-      return hasCurrentScore || hasFinalScore;
-    });
+  /**
+   * Get the syllabus of every included course that has one, for deadline
+   * extraction (see services/syllabus-parser.ts)
+   */
+  async getSyllabi(includeCourse: (courseId: number) => boolean = () => true): Promise<SyllabusSource[]> {
+    const [courses, preferences] = await Promise.all([
+      this.fetchAllCourses(['syllabus_body']),
+      this.fetchCoursePreferences()
+    ]);
+
+    return courses
+      .filter(course => includeCourse(course.id) && course.syllabus_body?.trim())
+      .map(course => ({
+        courseId: course.id,
+        courseName: course.name,
+        courseNickname: preferences.nicknames.get(course.id) ?? null,
+        courseColor: preferences.colors.get(course.id) ?? null,
+        syllabusBody: course.syllabus_body as string,
+        htmlUrl: this.toAbsoluteUrl(`/courses/${course.id}/assignments/syllabus`)
+      }));
+  }
+
+  /**
+   * Get announcements posted in the given courses over the last `sinceDays`
+   * days, newest first, for the announcement watcher
+   */
+  async getAnnouncements(courseIds: number[], sinceDays: number): Promise<CourseAnnouncement[]> {
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - sinceDays);
+
+    const announcements: CourseAnnouncement[] = [];
+    for (let i = 0; i < courseIds.length; i += ANNOUNCEMENT_COURSES_PER_REQUEST) {
+      const params = new URLSearchParams({
+        per_page: '50',
+        start_date: startDate.toISOString(),
+        end_date: new Date().toISOString()
+      });
+      for (const courseId of courseIds.slice(i, i + ANNOUNCEMENT_COURSES_PER_REQUEST)) {
+        params.append('context_codes[]', `course_${courseId}`);
+      }
+
+      const raw = await this.requestAll<RawAnnouncement>(`/announcements?${params}`);
+      for (const announcement of raw) {
+        const match = announcement.context_code.match(/^course_(\d+)$/);
+        if (!match || !announcement.posted_at) continue;
+
+        announcements.push({
+          id: announcement.id,
+          courseId: Number(match[1]),
+          title: announcement.title,
+          message: announcement.message || '',
+          postedAt: announcement.posted_at,
+          htmlUrl: this.toAbsoluteUrl(announcement.html_url)
+        });
+      }
+    }
+
+    return announcements.sort((a, b) => b.postedAt.localeCompare(a.postedAt));
   }
 
   /**
-   * Get only graded courses (filters out clubs, orientations, etc.)
+   * Get the nicknames and dashboard colors the student set in Canvas.
+   * Both are cosmetic, so a failure here is logged and yields empty maps.
    */
-  async getGradedCourses(): Promise<Course[]> {
-    const allCourses = await this.fetchAllCourses();
-    const gradedCourses = this.filterGradedCourses(allCourses);
+  private async fetchCoursePreferences(): Promise<CoursePreferences> {
+    const [nicknames, colors] = await Promise.all([
+      this.request<CourseNickname[]>('/users/self/course_nicknames').catch(error => {
+        console.warn('[Canvas-API] Failed to fetch course nicknames:', error);
+        return [] as CourseNickname[];
+      }),
+      this.request<{ custom_colors: Record<string, string> }>('/users/self/colors').catch(error => {
+        console.warn('[Canvas-API] Failed to fetch course colors:', error);
+        return { custom_colors: {} as Record<string, string> };
+      })
+    ]);
 
-    return gradedCourses;
+    // Colors are keyed by asset string, e.g. "course_123"
+    const courseColors = new Map<number, string>();
+    for (const [assetString, color] of Object.entries(colors.custom_colors || {})) {
+      const match = assetString.match(/^course_(\d+)$/);
+      if (match) courseColors.set(Number(match[1]), color);
+    }
+
+    return {
+      nicknames: new Map(nicknames.map(n => [n.course_id, n.nickname])),
+      colors: courseColors
+    };
   }
 
   /**
-   * Get assignments for a specific course
+   * Get every planner item (assignments, quizzes, discussions, pages,
+   * announcements, calendar events and the student's own planner notes)
+   * dated within the range, with submission and completion/dismissal state.
+   * Planner notes come back in the same collection as plannable_type "planner_note".
    */
-  private async fetchCourseAssignments(courseId: number): Promise<Assignment[]> {
+  async getPlannerItems(startDate: Date, endDate: Date): Promise<PlannerItem[]> {
     const params = new URLSearchParams({
       per_page: '100',
-      order_by: 'due_at'
+      start_date: startDate.toISOString(),
+      end_date: endDate.toISOString()
     });
 
-    return await this.request<Assignment[]>(`/courses/${courseId}/assignments?${params}`);
+    return await this.requestAll<PlannerItem>(`/planner/items?${params}`);
   }
 
   /**
-   * Filter assignments to only those due within the specified number of days
+   * Get full assignment records (description, submission types, rubric, quiz
+   * and discussion metadata) for specific assignments in one course
    */
-  private filterAssignmentsByDaysAhead(
-    assignments: Assignment[],
-    daysAhead: number
-  ): Assignment[] {
-    const now = new Date();
-    const cutoffDate = new Date();
-    cutoffDate.setDate(now.getDate() + daysAhead);
-    cutoffDate.setHours(23, 59, 59, 999);
+  private async fetchAssignmentDetails(courseId: number, assignmentIds: number[]): Promise<Assignment[]> {
+    const assignments: Assignment[] = [];
+    for (let i = 0; i < assignmentIds.length; i += ASSIGNMENT_IDS_PER_REQUEST) {
+      const params = new URLSearchParams({
+        per_page: '100',
+        'include[]': 'submission'
+      });
+      params.append('include[]', 'rubric');
+      params.append('include[]', 'all_dates');
+      for (const id of assignmentIds.slice(i, i + ASSIGNMENT_IDS_PER_REQUEST)) {
+        params.append('assignment_ids[]', String(id));
+      }
+
+      assignments.push(...await this.requestAll<Assignment>(`/courses/${courseId}/assignments?${params}`));
+    }
+    return assignments;
+  }
+
+  /**
+   * Which quiz a planner item is: "classic_<quizId>" for Classic Quizzes
+   * (graded or practice), "new_<assignmentId>" for New Quizzes, or null
+   */
+  private getQuizKey(item: PlannerItem, detail: Assignment | undefined): string | null {
+    if (detail?.quiz_id) return `classic_${detail.quiz_id}`;
+    if (detail && this.detectAssignmentType(detail) === 'quiz' && detail.submission_types?.includes('external_tool')) {
+      return `new_${detail.id}`;
+    }
+    if (!detail && item.plannable_type === 'quiz') return `classic_${item.plannable_id}`;
+    return null;
+  }
+
+  /**
+   * Get question count, time limit and allowed attempts for quizzes in one
+   * course, keyed like getQuizKey. Classic Quizzes come from one course-wide
+   * listing; New Quizzes are read one by one from the quiz API, which does
+   * not show students the question count.
+   */
+  private async fetchQuizDetails(
+    courseId: number,
+    classicQuizIds: number[],
+    newQuizAssignmentIds: number[]
+  ): Promise<Map<string, QuizDetails>> {
+    const result = new Map<string, QuizDetails>();
+
+    if (classicQuizIds.length > 0) {
+      const wanted = new Set(classicQuizIds);
+      const quizzes = await this.requestAll<ClassicQuiz>(`/courses/${courseId}/quizzes?per_page=100`);
+      for (const quiz of quizzes.filter(q => wanted.has(q.id))) {
+        result.set(`classic_${quiz.id}`, {
+          questionCount: quiz.question_count ?? null,
+          timeLimitMinutes: quiz.time_limit ?? null,
+          // -1 means unlimited
+          allowedAttempts: quiz.allowed_attempts != null && quiz.allowed_attempts > 0 ? quiz.allowed_attempts : null
+        });
+      }
+    }
+
+    const quizApiRoot = (this.baseUrl || '').replace(/\/api\/v1$/, '/api/quiz/v1');
+    for (const assignmentId of newQuizAssignmentIds) {
+      try {
+        const quiz = await this.request<NewQuiz>(`${quizApiRoot}/courses/${courseId}/quizzes/${assignmentId}`);
+        const settings = quiz.quiz_settings;
+        const attempts = settings?.multiple_attempts;
+        result.set(`new_${assignmentId}`, {
+          questionCount: null,
+          timeLimitMinutes: settings?.has_time_limit && settings.session_time_limit_in_seconds
+            ? Math.round(settings.session_time_limit_in_seconds / 60)
+            : null,
+          allowedAttempts: !attempts?.multiple_attempts_enabled
+            ? 1
+            : attempts.attempt_limit ? attempts.max_attempts ?? null : null
+        });
+      } catch (error) {
+        console.warn(`[Canvas-API] Failed to fetch New Quiz ${assignmentId} in course ${courseId}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Which discussion topic a planner item is: the topic behind a graded
+   * discussion, or the plannable itself for an ungraded one
+   */
+  private getDiscussionTopicId(item: PlannerItem, detail: Assignment | undefined): number | null {
+    if (detail?.discussion_topic) return detail.discussion_topic.id;
+    if (!detail && item.plannable_type === 'discussion_topic') return item.plannable_id;
+    return null;
+  }
+
+  /**
+   * Get a discussion topic's prompt, entry count and the length of the
+   * entries already posted. Topics that require an initial post hide the
+   * entries until the student posts, so only the count is known then.
+   */
+  private async fetchDiscussionDetails(
+    courseId: number,
+    topicId: number
+  ): Promise<{ discussion: DiscussionDetails; message: string }> {
+    const topic = await this.request<DiscussionTopic>(`/courses/${courseId}/discussion_topics/${topicId}`);
+
+    let entryWords: number | null = null;
+    if (topic.discussion_subentry_count === 0) {
+      entryWords = 0;
+    } else {
+      try {
+        const view = await this.request<{ view?: DiscussionEntry[] }>(`/courses/${courseId}/discussion_topics/${topicId}/view`);
+        entryWords = countEntryWords(view.view || []);
+      } catch (error) {
+        console.warn(`[Canvas-API] Entries of discussion ${topicId} in course ${courseId} are not visible:`, error);
+      }
+    }
 
-    return assignments.filter(assignment => {
-      if (!assignment.due_at) return false;
+    return {
+      discussion: { entryCount: topic.discussion_subentry_count, entryWords },
+      message: topic.message || ''
+    };
+  }
 
-      const dueDate = new Date(assignment.due_at);
-      // Assignment must be due in the future and within the cutoff
-      return dueDate >= now && dueDate <= cutoffDate;
+  /**
+   * Get a course's assignment groups with their weights and member assignments
+   */
+  private async fetchAssignmentGroups(courseId: number): Promise<AssignmentGroup[]> {
+    const params = new URLSearchParams({
+      per_page: '100',
+      'include[]': 'assignments'
     });
+
+    return await this.requestAll<AssignmentGroup>(`/courses/${courseId}/assignment_groups?${params}`);
+  }
+
+  /**
+   * Percent of the final grade each assignment in a course is worth.
+   * With weighted groups an assignment gets its share of the group's points
+   * times the group weight; otherwise its share of all points in the course.
+   * Assignments omitted from the final grade are worth 0.
+   */
+  private computeGradeImpact(course: Course, groups: AssignmentGroup[]): Map<number, number> {
+    const impact = new Map<number, number>();
+    const counts = (a: NonNullable<AssignmentGroup['assignments']>[number]) => !a.omit_from_final_grade;
+    const points = (a: NonNullable<AssignmentGroup['assignments']>[number]) => a.points_possible ?? 0;
+
+    if (course.apply_assignment_group_weights) {
+      for (const group of groups) {
+        const members = (group.assignments || []).filter(counts);
+        const groupPoints = members.reduce((sum, a) => sum + points(a), 0);
+        for (const assignment of group.assignments || []) {
+          const share = counts(assignment) && groupPoints > 0 ? points(assignment) / groupPoints : 0;
+          impact.set(assignment.id, share * (group.group_weight ?? 0));
+        }
+      }
+      return impact;
+    }
+
+    const all = groups.flatMap(group => group.assignments || []);
+    const totalPoints = all.filter(counts).reduce((sum, a) => sum + points(a), 0);
+    for (const assignment of all) {
+      impact.set(assignment.id, counts(assignment) && totalPoints > 0 ? (points(assignment) / totalPoints) * 100 : 0);
+    }
+    return impact;
+  }
+
+  /**
+   * Normalize a planner item to a consistent format.
+   * Assignment-backed items are keyed by their assignment id and take their
+   * details from the full assignment record when we have one; other plannables
+   * (pages, announcements, events, notes) get a "<plannable_type>_<id>" key so
+   * they can't collide with assignment ids.
+   */
+  private normalizePlannerItem(
+    item: PlannerItem,
+    course: Course | undefined,
+    detail: Assignment | undefined,
+    preferences: CoursePreferences,
+    gradeImpact: number | null,
+    quiz: QuizDetails | null,
+    discussion: { discussion: DiscussionDetails; message: string } | null
+  ): NormalizedAssignment {
+    const assignmentId = this.getPlannerAssignmentId(item);
+    const dates = detail ? this.resolveEffectiveDates(detail) : null;
+    const plannerSubmission = item.submissions
+      ? {
+        submitted: item.submissions.submitted,
+        graded: item.submissions.graded,
+        missing: item.submissions.missing,
+        late: item.submissions.late,
+        excused: item.submissions.excused
+      }
+      : null;
+
+    return {
+      id: assignmentId ?? `${item.plannable_type}_${item.plannable_id}`,
+      title: detail?.name || item.plannable.title,
+      type: detail && item.plannable_type === 'assignment'
+        ? this.detectAssignmentType(detail)
+        : PLANNABLE_TYPE_MAP[item.plannable_type] || 'assignment',
+      dueDate: dates ? dates.due_at : item.plannable.due_at || item.plannable.todo_date || item.plannable_date,
+      unlockAt: dates?.unlock_at ?? null,
+      lockAt: dates?.lock_at ?? null,
+      courseName: course?.name || item.context_name || 'To Do',
+      courseNickname: item.course_id ? preferences.nicknames.get(item.course_id) ?? null : null,
+      courseColor: item.course_id ? preferences.colors.get(item.course_id) ?? null : null,
+      courseId: course?.id ?? item.course_id ?? 0,
+      pointsPossible: detail?.points_possible ?? item.plannable.points_possible ?? null,
+      htmlUrl: detail?.html_url || this.toAbsoluteUrl(item.html_url),
+      submissionTypes: detail?.submission_types || [],
+      description: detail?.description || item.plannable.details || discussion?.message || '',
+      submission: this.normalizeSubmission(detail?.submission) ?? plannerSubmission,
+      rubric: this.normalizeRubric(detail?.rubric),
+      gradeImpact,
+      readingWords: null,
+      readingPages: null,
+      quiz,
+      discussion: discussion?.discussion ?? null,
+      markedComplete: item.planner_override?.marked_complete === true,
+      dismissed: item.planner_override?.dismissed === true
+    };
+  }
+
+  /**
+   * Readings from a course's modules: every Page and document File whose
+   * inferred due date falls inside the window, measured in words (Pages) or
+   * PDF pages (Files) where that can be read. Pages the planner already
+   * lists with their own to-do date are left to the planner.
+   */
+  private async fetchModuleReadings(
+    course: Course,
+    preferences: CoursePreferences,
+    windowStart: Date,
+    windowEnd: Date,
+    knownDueDates: Map<number, string | null>,
+    plannerPageIds: Set<number>
+  ): Promise<NormalizedAssignment[]> {
+    const params = new URLSearchParams({ per_page: '50' });
+    params.append('include[]', 'items');
+    params.append('include[]', 'content_details');
+    const modules = await this.requestAll<Module>(`/courses/${course.id}/modules?${params}`);
+
+    // Page versions are only listed once the course has a Page to measure
+    let pageVersions: Promise<Map<string, string>> | undefined;
+    const getPageVersions = () => (pageVersions ??= this.fetchPageVersions(course.id));
+
+    const readings: NormalizedAssignment[] = [];
+    for (const module of modules) {
+      // Canvas leaves items out of the listing for very large modules
+      const items = module.items ?? await this.requestAll<ModuleItem>(
+        `/courses/${course.id}/modules/${module.id}/items?per_page=100&include[]=content_details`
+      );
+
+      for (const [index, item] of items.entries()) {
+        if (item.type !== 'Page' && item.type !== 'File') continue;
+        if (item.type === 'Page' && item.content_id && plannerPageIds.has(item.content_id)) continue;
+
+        const dueDate = this.inferReadingDueDate(module, items, index, knownDueDates);
+        if (!dueDate) continue;
+        const due = new Date(dueDate);
+        if (due < windowStart || due > windowEnd) continue;
+
+        const length = await this.measureReading(course.id, item, getPageVersions);
+        if (!length) continue;
+
+        readings.push({
+          id: `module_item_${item.id}`,
+          title: item.title,
+          type: 'page',
+          dueDate,
+          unlockAt: item.content_details?.unlock_at ?? module.unlock_at,
+          lockAt: item.content_details?.lock_at ?? null,
+          courseName: course.name,
+          courseNickname: preferences.nicknames.get(course.id) ?? null,
+          courseColor: preferences.colors.get(course.id) ?? null,
+          courseId: course.id,
+          pointsPossible: null,
+          htmlUrl: item.html_url || '',
+          submissionTypes: [],
+          description: `Reading in module "${module.name}"`,
+          submission: null,
+          rubric: null,
+          gradeImpact: null,
+          readingWords: length.readingWords,
+          readingPages: length.readingPages,
+          quiz: null,
+          discussion: null,
+          markedComplete: item.completion_requirement?.completed === true,
+          dismissed: false
+        });
+      }
+    }
+
+    return readings;
+  }
+
+  /**
+   * When a module reading should be done: by the first dated assignment,
+   * quiz or discussion after it in the module, else the module's earliest
+   * dated graded item, else when the module unlocks. Assignment dates use
+   * the student's resolved overrides when we fetched them.
+   */
+  private inferReadingDueDate(
+    module: Module,
+    items: ModuleItem[],
+    index: number,
+    knownDueDates: Map<number, string | null>
+  ): string | null {
+    const dueDateOf = (item: ModuleItem): string | null => {
+      if (!GRADED_MODULE_ITEM_TYPES.has(item.type)) return null;
+      if (item.type === 'Assignment' && item.content_id && knownDueDates.has(item.content_id)) {
+        return knownDueDates.get(item.content_id) ?? null;
+      }
+      return item.content_details?.due_at ?? null;
+    };
+
+    const following = items.slice(index + 1).map(dueDateOf).find(Boolean);
+    if (following) return following;
+
+    const moduleDates = items.map(dueDateOf).filter((d): d is string => !!d).sort();
+    return moduleDates[0] ?? module.unlock_at;
+  }
+
+  /**
+   * Word count of a Page or page count of a PDF. Returns null for files that
+   * aren't readings (images, video); unknown lengths come back as nulls,
+   * including items the student can't open yet (locked pages and files), so
+   * one of those doesn't cost the rest of the course's readings.
+   */
+  private async measureReading(
+    courseId: number,
+    item: ModuleItem,
+    getPageVersions: () => Promise<Map<string, string>>
+  ): Promise<{ readingWords: number | null; readingPages: number | null } | null> {
+    try {
+      return await this.fetchReadingLength(courseId, item, getPageVersions);
+    } catch (error) {
+      console.warn(`[Canvas-API] Could not measure "${item.title}" in course ${courseId}:`, error);
+      return { readingWords: null, readingPages: null };
+    }
+  }
+
+  /**
+   * The lookups behind measureReading, which turns their failures into an
+   * unknown length
+   */
+  private async fetchReadingLength(
+    courseId: number,
+    item: ModuleItem,
+    getPageVersions: () => Promise<Map<string, string>>
+  ): Promise<{ readingWords: number | null; readingPages: number | null } | null> {
+    if (item.type === 'Page') {
+      if (!item.page_url) return { readingWords: null, readingPages: null };
+
+      const updatedAt = (await getPageVersions()).get(item.page_url);
+      const wordCounts = await loadReadingLengths(PAGE_WORD_COUNTS_KEY);
+      const listedKey = `${courseId}:${item.page_url}:${updatedAt}`;
+      if (updatedAt && listedKey in wordCounts) {
+        return { readingWords: wordCounts[listedKey], readingPages: null };
+      }
+
+      const page = await this.request<WikiPage>(`/courses/${courseId}/pages/${encodeURIComponent(item.page_url)}`);
+      const words = countWords(page.body || '');
+      await storeReadingLength(PAGE_WORD_COUNTS_KEY, `${courseId}:${page.url}:${page.updated_at}`, words);
+      return { readingWords: words, readingPages: null };
+    }
+
+    if (!item.content_id) return null;
+    const file = await this.request<CanvasFile>(`/courses/${courseId}/files/${item.content_id}`);
+    if (!READING_FILE_TYPES.test(file['content-type'])) return null;
+    if (!/pdf/i.test(file['content-type']) || file.size > MAX_PDF_BYTES) {
+      return { readingWords: null, readingPages: null };
+    }
+
+    const cacheKey = `${file.id}:${file.updated_at}`;
+    const pageCounts = await loadReadingLengths(PDF_PAGE_COUNTS_KEY);
+    if (cacheKey in pageCounts) {
+      return { readingWords: null, readingPages: pageCounts[cacheKey] };
+    }
+
+    // `url` is a pre-authorized download link, fetched without the API token.
+    // It usually redirects to a file storage host (inst-fs, S3) the extension
+    // has no host permission for, and then the download fails and the count
+    // stays unknown. That is stored too, so the file isn't tried again on
+    // every refresh, only once it changes.
+    let pages: number | null = null;
+    try {
+      const response = await fetch(file.url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      pages = countPdfPages(await response.arrayBuffer());
+    } catch (error) {
+      console.warn(`[Canvas-API] Could not download "${file.display_name}" to count pages:`, error);
+    }
+
+    await storeReadingLength(PDF_PAGE_COUNTS_KEY, cacheKey, pages);
+    return { readingWords: null, readingPages: pages };
+  }
+
+  /**
+   * When each of a course's Pages last changed, by page url, from one
+   * listing without bodies. Empty when the student can't list the pages.
+   */
+  private async fetchPageVersions(courseId: number): Promise<Map<string, string>> {
+    try {
+      const pages = await this.requestAll<WikiPage>(`/courses/${courseId}/pages?per_page=100`);
+      return new Map(pages.map(page => [page.url, page.updated_at]));
+    } catch (error) {
+      console.warn(`[Canvas-API] Could not list pages for course ${courseId}:`, error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Resolve the due / unlock / lock dates that apply to the current student.
+   * Overrides (section, group, individual accommodations) beat the base dates;
+   * when several overrides apply, Canvas gives the student the most lenient
+   * one, i.e. the latest due date, with "no due date" being the latest of all.
+   * Falls back to the assignment's own dates when `all_dates` is missing.
+   */
+  private resolveEffectiveDates(assignment: Assignment): Pick<AssignmentDate, 'due_at' | 'unlock_at' | 'lock_at'> {
+    const allDates = assignment.all_dates || [];
+    const overrides = allDates.filter(date => !date.base);
+    const candidates = overrides.length > 0 ? overrides : allDates;
+
+    if (candidates.length === 0) {
+      return { due_at: assignment.due_at, unlock_at: assignment.unlock_at, lock_at: assignment.lock_at };
+    }
+
+    const dueTime = (date: AssignmentDate) => date.due_at ? new Date(date.due_at).getTime() : Infinity;
+    const effective = candidates.reduce((latest, date) => dueTime(date) > dueTime(latest) ? date : latest);
+
+    return { due_at: effective.due_at, unlock_at: effective.unlock_at, lock_at: effective.lock_at };
   }
 
   /**
-   * Normalize assignments to a consistent format
-   */
-  private normalizeAssignments(
-    assignments: Assignment[],
-    course: Course
-  ): NormalizedAssignment[] {
-    return assignments.map(assignment => ({
-      id: assignment.id,
-      title: assignment.name,
-      type: 'assignment',
-      dueDate: assignment.due_at,
-      courseName: course.name,
-      courseId: course.id,
-      pointsPossible: assignment.points_possible,
-      htmlUrl: assignment.html_url,
-      submissionTypes: assignment.submission_types || [],
-      description: assignment.description || ''
+   * The Canvas assignment id behind a planner item, if it has one
+   */
+  private getPlannerAssignmentId(item: PlannerItem): number | null {
+    if (item.plannable_type === 'assignment') return item.plannable_id;
+    return item.plannable.assignment_id ?? null;
+  }
+
+  /**
+   * Planner html_url values are relative to the Canvas host
+   */
+  private toAbsoluteUrl(path: string | undefined): string {
+    if (!path || !this.baseUrl) return path || '';
+    if (/^https?:\/\//.test(path)) return path;
+    return `${this.baseUrl.replace(/\/api\/v1$/, '')}${path}`;
+  }
+
+  /**
+   * Derive the assignment type from Canvas metadata rather than the title.
+   * Classic Quizzes carry quiz_id / is_quiz_assignment, New Quizzes are external
+   * tool assignments pointing at the quiz LTI, and graded discussions carry a
+   * discussion_topic. Everything else is a plain assignment.
+   */
+  private detectAssignmentType(assignment: Assignment): AssignmentType {
+    const submissionTypes = assignment.submission_types || [];
+
+    if (assignment.is_quiz_assignment || assignment.quiz_id || submissionTypes.includes('online_quiz')) {
+      return 'quiz';
+    }
+
+    if (assignment.discussion_topic || submissionTypes.includes('discussion_topic')) {
+      return 'discussion';
+    }
+
+    if (submissionTypes.includes('external_tool')) {
+      const toolUrl = assignment.external_tool_tag_attributes?.url || '';
+      if (assignment.is_quiz_lti_assignment || /quiz-lti|quizzes\.next/i.test(toolUrl)) {
+        return 'quiz';
+      }
+    }
+
+    return 'assignment';
+  }
+
+  /**
+   * Reduce a Canvas submission object to the flags we care about.
+   * Returns null when Canvas didn't include one (e.g. observer or teacher tokens).
+   */
+  private normalizeSubmission(submission: Submission | undefined): SubmissionState | null {
+    if (!submission) return null;
+
+    return {
+      submitted: submission.submitted_at !== null || submission.workflow_state === 'pending_review',
+      graded: submission.workflow_state === 'graded',
+      missing: submission.missing,
+      late: submission.late,
+      excused: submission.excused === true
+    };
+  }
+
+  /**
+   * Reduce a Canvas rubric to its criteria and point split.
+   * Returns null when the assignment has no rubric attached.
+   */
+  private normalizeRubric(rubric: RawRubricCriterion[] | undefined): RubricCriterion[] | null {
+    if (!rubric?.length) return null;
+
+    return rubric.map(criterion => ({
+      description: criterion.description || '',
+      longDescription: criterion.long_description || '',
+      points: criterion.points ?? 0
     }));
   }
 
   /**
    * Get all assignments due within the specified number of days
-   * This is the main method to call for fetching upcoming work
+   * This is the main method to call for fetching upcoming work, including
+   * module readings (type "page") that fall due in the window
    *
    * @param daysAhead - Number of days to look ahead (default: 7)
+   * @param includeCourse - Which courses count; the student picks these in Options (default: all)
    * @returns Array of normalized assignments sorted by due date
    */
-  async getAssignmentsDueWithinDays(daysAhead: number = 7): Promise<NormalizedAssignment[]> {
-    // Step 1: Get graded courses only
-    const gradedCourses = await this.getGradedCourses();
+  async getAssignmentsDueWithinDays(
+    daysAhead: number = 7,
+    includeCourse: (courseId: number) => boolean = () => true
+  ): Promise<NormalizedAssignment[]> {
+    const now = new Date();
+    const cutoffDate = new Date();
+    cutoffDate.setDate(now.getDate() + daysAhead);
+    cutoffDate.setHours(23, 59, 59, 999);
+
+    // Step 1: One date-ranged planner call covers every course, plus the included
+    // course list and the student's course nicknames / colors
+    const [courses, plannerItems, preferences] = await Promise.all([
+      this.fetchAllCourses(),
+      this.getPlannerItems(now, cutoffDate),
+      this.fetchCoursePreferences()
+    ]);
+    const courseMap = new Map(
+      courses.filter(course => includeCourse(course.id)).map(course => [course.id, course])
+    );
 
-    // Step 2: Fetch assignments for each course in parallel
-    const assignmentPromises = gradedCourses.map(async (course) => {
+    // Items without a course (personal notes and events) are always kept
+    const relevantItems = plannerItems.filter(item => !item.course_id || courseMap.has(item.course_id));
+
+    // Step 2: Fetch full records only for the assignments actually due, grouped by course
+    const idsByCourse = new Map<number, number[]>();
+    for (const item of relevantItems) {
+      const assignmentId = this.getPlannerAssignmentId(item);
+      if (assignmentId === null || !item.course_id) continue;
+      idsByCourse.set(item.course_id, [...(idsByCourse.get(item.course_id) || []), assignmentId]);
+    }
+
+    // Assignment groups give each assignment's weight in the final grade
+    const details = new Map<number, Assignment>();
+    const gradeImpact = new Map<number, number>();
+    await Promise.all(Array.from(idsByCourse.entries()).map(async ([courseId, assignmentIds]) => {
       try {
-        const assignments = await this.fetchCourseAssignments(course.id);
-        const filteredAssignments = this.filterAssignmentsByDaysAhead(assignments, daysAhead);
-        return this.normalizeAssignments(filteredAssignments, course);
+        const assignments = await this.fetchAssignmentDetails(courseId, assignmentIds);
+        for (const assignment of assignments) {
+          details.set(assignment.id, assignment);
+        }
       } catch (error) {
-        console.warn(`[Canvas-API] Failed to fetch assignments for course ${course.id} (${course.name}):`, error);
-        return [];
+        console.warn(`[Canvas-API] Failed to fetch assignment details for course ${courseId}:`, error);
       }
-    });
 
-    const assignmentArrays = await Promise.all(assignmentPromises);
-    const allAssignments = assignmentArrays.flat();
+      try {
+        const groups = await this.fetchAssignmentGroups(courseId);
+        for (const [id, percent] of this.computeGradeImpact(courseMap.get(courseId)!, groups)) {
+          gradeImpact.set(id, percent);
+        }
+      } catch (error) {
+        console.warn(`[Canvas-API] Failed to fetch assignment groups for course ${courseId}:`, error);
+      }
+    }));
+
+    // Quiz settings (questions, time limit, attempts) for every quiz in the window
+    const quizIdsByCourse = new Map<number, { classic: number[]; newQuiz: number[] }>();
+    for (const item of relevantItems) {
+      if (!item.course_id) continue;
+      const assignmentId = this.getPlannerAssignmentId(item);
+      const key = this.getQuizKey(item, assignmentId !== null ? details.get(assignmentId) : undefined);
+      if (!key) continue;
+
+      const ids = quizIdsByCourse.get(item.course_id) || { classic: [], newQuiz: [] };
+      const [kind, id] = key.split('_');
+      (kind === 'classic' ? ids.classic : ids.newQuiz).push(Number(id));
+      quizIdsByCourse.set(item.course_id, ids);
+    }
+
+    const quizzes = new Map<string, QuizDetails>();
+    await Promise.all(Array.from(quizIdsByCourse.entries()).map(async ([courseId, ids]) => {
+      try {
+        for (const [key, quiz] of await this.fetchQuizDetails(courseId, ids.classic, ids.newQuiz)) {
+          quizzes.set(key, quiz);
+        }
+      } catch (error) {
+        console.warn(`[Canvas-API] Failed to fetch quiz settings for course ${courseId}:`, error);
+      }
+    }));
+
+    // Entry counts and reading volume for every discussion in the window
+    const discussions = new Map<number, { discussion: DiscussionDetails; message: string }>();
+    await Promise.all(relevantItems.map(async item => {
+      const assignmentId = this.getPlannerAssignmentId(item);
+      const topicId = this.getDiscussionTopicId(item, assignmentId !== null ? details.get(assignmentId) : undefined);
+      if (topicId === null || !item.course_id) return;
+
+      try {
+        discussions.set(topicId, await this.fetchDiscussionDetails(item.course_id, topicId));
+      } catch (error) {
+        console.warn(`[Canvas-API] Failed to fetch discussion ${topicId} in course ${item.course_id}:`, error);
+      }
+    }));
 
-    // Step 3: Sort by due date
-    allAssignments.sort((a, b) => {
-      if (!a.dueDate) return 1;
-      if (!b.dueDate) return -1;
-      return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+    const allAssignments = relevantItems.map(item => {
+      const assignmentId = this.getPlannerAssignmentId(item);
+      const detail = assignmentId !== null ? details.get(assignmentId) : undefined;
+      const quizKey = this.getQuizKey(item, detail);
+      const topicId = this.getDiscussionTopicId(item, detail);
+      return this.normalizePlannerItem(
+        item,
+        item.course_id ? courseMap.get(item.course_id) : undefined,
+        detail,
+        preferences,
+        assignmentId !== null ? gradeImpact.get(assignmentId) ?? null : null,
+        quizKey ? quizzes.get(quizKey) ?? null : null,
+        topicId !== null ? discussions.get(topicId) ?? null : null
+      );
     });
 
+    // Step 3: Readings from course modules, dated by the work they lead up to.
+    // Only courses with planner work in the window are walked, so quiet
+    // courses cost no module requests.
+    const knownDueDates = new Map<number, string | null>();
+    for (const [id, detail] of details) {
+      knownDueDates.set(id, this.resolveEffectiveDates(detail).due_at);
+    }
+    const plannerPageIds = new Set(
+      relevantItems.filter(item => item.plannable_type === 'wiki_page').map(item => item.plannable_id)
+    );
+    const activeCourses = Array.from(courseMap.values())
+      .filter(course => relevantItems.some(item => item.course_id === course.id));
+    await Promise.all(activeCourses.map(async course => {
+      try {
+        allAssignments.push(...await this.fetchModuleReadings(
+          course, preferences, now, cutoffDate, knownDueDates, plannerPageIds
+        ));
+      } catch (error) {
+        console.warn(`[Canvas-API] Failed to fetch module readings for course ${course.id}:`, error);
+      }
+    }));
+
+    // Step 4: Sort by the student's effective deadline
+    allAssignments.sort(compareByDeadline);
+
     return allAssignments;
   }
 
 }
 
+/**
+ * Parse a Canvas response body. A 2xx that isn't JSON (usually a login or
+ * landing page because the Canvas URL is wrong) is reported as malformed.
+ */
+async function parseJson<T>(response: Response): Promise<T> {
+  try {
+    return await response.json();
+  } catch {
+    throw new CanvasError('malformed', `Canvas returned a non-JSON response from ${response.url || 'the API'}`, response.status);
+  }
+}
+
+/**
+ * Stored reading lengths under one of the reading length keys
+ */
+async function loadReadingLengths(key: string): Promise<Record<string, number | null>> {
+  const { [key]: stored } = await chrome.storage.local.get(key);
+  return stored || {};
+}
+
+/**
+ * Add a reading length, dropping the oldest entries past the cap
+ */
+async function storeReadingLength(key: string, cacheKey: string, value: number | null): Promise<void> {
+  const kept = Object.entries(await loadReadingLengths(key)).filter(([k]) => k !== cacheKey).slice(-(MAX_READING_LENGTHS - 1));
+  await chrome.storage.local.set({ [key]: { ...Object.fromEntries(kept), [cacheKey]: value } });
+}
+
+/**
+ * Words in every entry of a discussion view, replies included
+ */
+function countEntryWords(entries: DiscussionEntry[]): number {
+  return entries.reduce(
+    (sum, entry) => sum + (entry.deleted ? 0 : countWords(entry.message || '')) + countEntryWords(entry.replies || []),
+    0
+  );
+}
+
+/**
+ * Extract the rel="next" URL from a Canvas Link header, if any.
+ * Example: <https://x.instructure.com/api/v1/courses?page=2&per_page=100>; rel="next", <...>; rel="last"
+ */
+function parseNextLink(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+    if (match) return match[1];
+  }
+
+  return null;
+}
+
 // Export singleton instance for convenience
 export const canvasAPI = new CanvasAPI();
@@ -0,0 +1,291 @@
+/**
+ * Canvas OAuth2 Service
+ * Signs the student in with the OAuth2 authorization-code flow against a
+ * Canvas developer key, so they never have to generate or paste an access token.
+ * Uses chrome.identity.launchWebAuthFlow for the browser sign-in step.
+ *
+ * Sessions (access + refresh token) live in chrome.storage.local, keyed by
+ * CanvasProfile id, and never sync. The developer key's client ID is part of
+ * the profile in chrome.storage.sync; its secret stays in chrome.storage.local
+ * (`canvasClientSecrets`, also keyed by profile id) so it isn't copied to
+ * every browser the student signs in to.
+ */
+
+import { CanvasError } from './canvas-errors';
+import type { CanvasTokenProvider } from './canvas-api';
+import type { CanvasProfile } from '../types';
+
+const SESSIONS_KEY = 'canvasOAuthSessions';
+const CLIENT_SECRETS_KEY = 'canvasClientSecrets';
+
+// Refresh a little before Canvas' one-hour expiry so in-flight requests don't race it
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+export interface CanvasOAuthSession {
+  canvasUrl: string;
+  clientId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  userName: string | null;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  user?: { id: number; name: string };
+}
+
+/**
+ * OAuth2 session management for a single CanvasProfile
+ */
+export class CanvasAuthService implements CanvasTokenProvider {
+  private profileId: string;
+  private refreshing: Promise<string> | null = null;
+
+  constructor(profileId: string) {
+    this.profileId = profileId;
+  }
+
+  /**
+   * The redirect URI that must be registered on the Canvas developer key
+   */
+  getRedirectUri(): string {
+    return chrome.identity.getRedirectURL('canvas');
+  }
+
+  /**
+   * Run the interactive authorization-code flow and store the resulting session
+   */
+  async signIn(canvasUrl: string, clientId: string): Promise<CanvasOAuthSession> {
+    const clientSecret = await this.getClientSecret();
+    const origin = this.toOrigin(canvasUrl);
+    const redirectUri = this.getRedirectUri();
+    const state = crypto.randomUUID();
+
+    const authUrl = `${origin}/login/oauth2/auth?${new URLSearchParams({
+      client_id: clientId,
+      response_type: 'code',
+      redirect_uri: redirectUri,
+      state,
+    })}`;
+
+    const responseUrl = await chrome.identity.launchWebAuthFlow({ url: authUrl, interactive: true });
+    if (!responseUrl) {
+      throw new Error('Canvas sign-in was cancelled');
+    }
+
+    const params = new URL(responseUrl).searchParams;
+    if (params.get('error')) {
+      throw new Error(`Canvas sign-in failed: ${params.get('error_description') || params.get('error')}`);
+    }
+    if (params.get('state') !== state) {
+      throw new Error('Canvas sign-in failed: state mismatch');
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      throw new Error('Canvas sign-in failed: no authorization code returned');
+    }
+
+    const tokens = await this.requestToken(origin, {
+      grant_type: 'authorization_code',
+      client_id: clientId,
+      client_secret: clientSecret,
+      redirect_uri: redirectUri,
+      code,
+    });
+
+    if (!tokens.refresh_token) {
+      throw new Error('Canvas sign-in failed: no refresh token returned');
+    }
+
+    const session: CanvasOAuthSession = {
+      canvasUrl: origin,
+      clientId,
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      expiresAt: Date.now() + (tokens.expires_in ?? 3600) * 1000,
+      userName: tokens.user?.name ?? null,
+    };
+
+    await this.saveSession(session);
+    return session;
+  }
+
+  /**
+   * Revoke the access token with Canvas and forget the session
+   */
+  async signOut(): Promise<void> {
+    const session = await this.getSession();
+    if (!session) return;
+
+    try {
+      await fetch(`${session.canvasUrl}/login/oauth2/token`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${session.accessToken}` },
+      });
+    } catch (error) {
+      console.warn('[CanvasAuth] Token revocation failed:', error);
+    }
+
+    await this.saveSession(null);
+  }
+
+  /**
+   * The developer key secret saved for this profile ('' when there is none)
+   */
+  async getClientSecret(): Promise<string> {
+    const { [CLIENT_SECRETS_KEY]: secrets } = await chrome.storage.local.get(CLIENT_SECRETS_KEY);
+    return (secrets as Record<string, string> | undefined)?.[this.profileId] || '';
+  }
+
+  /**
+   * Save this profile's developer key secret; an empty secret removes it
+   */
+  async setClientSecret(secret: string): Promise<void> {
+    const { [CLIENT_SECRETS_KEY]: stored } = await chrome.storage.local.get(CLIENT_SECRETS_KEY);
+    const secrets = { ...(stored as Record<string, string> | undefined) };
+    if (secret) {
+      secrets[this.profileId] = secret;
+    } else {
+      delete secrets[this.profileId];
+    }
+    await chrome.storage.local.set({ [CLIENT_SECRETS_KEY]: secrets });
+  }
+
+  /**
+   * Get the stored session, if the student has signed in to this profile
+   */
+  async getSession(): Promise<CanvasOAuthSession | null> {
+    const sessions = await this.getAllSessions();
+    return sessions[this.profileId] || null;
+  }
+
+  /**
+   * Get a usable access token, refreshing it first if it is about to expire
+   */
+  async getAccessToken(): Promise<string> {
+    const session = await this.getSession();
+    if (!session) {
+      throw new CanvasError('auth', 'Not signed in to Canvas. Please sign in from the settings page.');
+    }
+
+    if (Date.now() < session.expiresAt - EXPIRY_MARGIN_MS) {
+      return session.accessToken;
+    }
+
+    return this.refreshAccessToken();
+  }
+
+  /**
+   * Exchange the refresh token for a new access token.
+   * Concurrent callers share a single in-flight refresh.
+   */
+  async refreshAccessToken(): Promise<string> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  // --- Private helpers ---
+
+  private async doRefresh(): Promise<string> {
+    const session = await this.getSession();
+    if (!session) {
+      throw new CanvasError('auth', 'Not signed in to Canvas. Please sign in from the settings page.');
+    }
+
+    const tokens = await this.requestToken(session.canvasUrl, {
+      grant_type: 'refresh_token',
+      client_id: session.clientId,
+      client_secret: await this.getClientSecret(),
+      refresh_token: session.refreshToken,
+    });
+
+    const updated: CanvasOAuthSession = {
+      ...session,
+      accessToken: tokens.access_token,
+      expiresAt: Date.now() + (tokens.expires_in ?? 3600) * 1000,
+    };
+
+    await this.saveSession(updated);
+    return updated.accessToken;
+  }
+
+  private async getAllSessions(): Promise<Record<string, CanvasOAuthSession>> {
+    const { [SESSIONS_KEY]: sessions } = await chrome.storage.local.get(SESSIONS_KEY);
+    return (sessions as Record<string, CanvasOAuthSession>) || {};
+  }
+
+  private async saveSession(session: CanvasOAuthSession | null): Promise<void> {
+    const sessions = await this.getAllSessions();
+    if (session) {
+      sessions[this.profileId] = session;
+    } else {
+      delete sessions[this.profileId];
+    }
+    await chrome.storage.local.set({ [SESSIONS_KEY]: sessions });
+  }
+
+  private async requestToken(origin: string, body: Record<string, string>): Promise<TokenResponse> {
+    const response = await fetch(`${origin}/login/oauth2/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      // A rejected refresh token means the student has to sign in again
+      if (body.grant_type === 'refresh_token' && (response.status === 400 || response.status === 401)) {
+        await this.saveSession(null);
+        throw new CanvasError('auth', 'Canvas session expired. Please sign in again.', response.status);
+      }
+      throw new Error(`Canvas OAuth error (${response.status}): ${errorText}`);
+    }
+
+    return await response.json();
+  }
+
+  private toOrigin(canvasUrl: string): string {
+    return new URL(canvasUrl.trim()).origin;
+  }
+}
+
+/**
+ * One-time move for installs that kept the developer key secret in the synced
+ * profile and in each session: the secret goes to the local store and is
+ * stripped from both.
+ */
+export async function migrateClientSecrets(): Promise<void> {
+  const { canvasProfiles } = await chrome.storage.sync.get('canvasProfiles');
+  const { [SESSIONS_KEY]: storedSessions, [CLIENT_SECRETS_KEY]: storedSecrets } =
+    await chrome.storage.local.get([SESSIONS_KEY, CLIENT_SECRETS_KEY]);
+
+  const profiles = (canvasProfiles || []) as Array<CanvasProfile & { clientSecret?: string }>;
+  const sessions = (storedSessions || {}) as Record<string, CanvasOAuthSession & { clientSecret?: string }>;
+  const secrets: Record<string, string> = { ...storedSecrets };
+
+  const profilesWithSecret = profiles.filter(p => p.clientSecret !== undefined);
+  const sessionsWithSecret = Object.entries(sessions).filter(([, s]) => s.clientSecret !== undefined);
+  if (profilesWithSecret.length === 0 && sessionsWithSecret.length === 0) return;
+
+  for (const [profileId, session] of sessionsWithSecret) {
+    if (session.clientSecret) secrets[profileId] ??= session.clientSecret;
+    delete session.clientSecret;
+  }
+  for (const profile of profilesWithSecret) {
+    if (profile.clientSecret) secrets[profile.id] = profile.clientSecret;
+    delete profile.clientSecret;
+  }
+
+  await chrome.storage.local.set({ [SESSIONS_KEY]: sessions, [CLIENT_SECRETS_KEY]: secrets });
+  if (profilesWithSecret.length > 0) {
+    await chrome.storage.sync.set({ canvasProfiles: profiles });
+  }
+}
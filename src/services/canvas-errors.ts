@@ -0,0 +1,114 @@
+/**
+ * Canvas Errors
+ * Typed failures for Canvas requests so the popup and sidebar can tell the
+ * student what went wrong and what to do about it, instead of a generic
+ * "Failed to load assignments".
+ *
+ * Messages keep the "Canvas API error (<status>): <body>" form because
+ * withRetry decides what is transient by matching on the status code.
+ */
+
+import type { CanvasErrorKind } from '../types';
+
+export class CanvasError extends Error {
+  readonly kind: CanvasErrorKind;
+  readonly status: number | null;
+
+  constructor(kind: CanvasErrorKind, message: string, status: number | null = null) {
+    super(message);
+    this.name = 'CanvasError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+/**
+ * Classify a non-OK Canvas response
+ */
+export function fromResponse(status: number, body: string): CanvasError {
+  const message = `Canvas API error (${status}): ${body}`;
+
+  if (/insufficient scopes?/i.test(body)) {
+    return new CanvasError('scope', message, status);
+  }
+  if (status === 401) {
+    return new CanvasError('auth', message, status);
+  }
+  if (status === 429 || (status === 403 && /rate limit exceeded/i.test(body))) {
+    return new CanvasError('rate_limited', message, status);
+  }
+  if (status === 403) {
+    return new CanvasError('scope', message, status);
+  }
+  if (status >= 500) {
+    return new CanvasError('unreachable', message, status);
+  }
+
+  return new CanvasError('unknown', message, status);
+}
+
+/**
+ * Classify a fetch() that never produced a response
+ */
+export function fromNetworkFailure(error: unknown): CanvasError {
+  const detail = error instanceof Error ? error.message : String(error);
+
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return new CanvasError('offline', `You appear to be offline (${detail})`);
+  }
+  return new CanvasError('unreachable', `Could not reach Canvas (${detail})`);
+}
+
+/**
+ * Wrap anything thrown during a refresh as a CanvasError
+ */
+export function toCanvasError(error: unknown): CanvasError {
+  if (error instanceof CanvasError) return error;
+  return new CanvasError('unknown', error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * What the student can do about each kind of failure.
+ * `action` picks the button the popup and sidebar show.
+ */
+export const CANVAS_ERROR_HELP: Record<CanvasErrorKind, {
+  title: string;
+  description: string;
+  action: 'settings' | 'retry';
+}> = {
+  auth: {
+    title: 'Canvas sign-in expired',
+    description: 'Your access token was rejected. Sign in again or paste a new token in Settings.',
+    action: 'settings',
+  },
+  scope: {
+    title: 'Missing Canvas permissions',
+    description: 'Your token or developer key is not allowed to read assignments. Generate a new token or ask your school to widen the developer key scopes.',
+    action: 'settings',
+  },
+  offline: {
+    title: "You're offline",
+    description: 'Reconnect to the internet, then try again. Your last loaded assignments are still shown.',
+    action: 'retry',
+  },
+  rate_limited: {
+    title: 'Canvas is rate limiting requests',
+    description: 'Too many requests were made in a short time. Wait a minute, then try again.',
+    action: 'retry',
+  },
+  unreachable: {
+    title: "Can't reach your school's Canvas",
+    description: 'Canvas did not respond. Check the Canvas URL in Settings, or try again if your school is having an outage.',
+    action: 'retry',
+  },
+  malformed: {
+    title: 'Unexpected response from Canvas',
+    description: 'Canvas returned something that is not API data. This usually means the Canvas URL points at the wrong site.',
+    action: 'settings',
+  },
+  unknown: {
+    title: 'Something went wrong',
+    description: 'The refresh failed unexpectedly. Try again in a moment.',
+    action: 'retry',
+  },
+};
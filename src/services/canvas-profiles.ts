@@ -0,0 +1,98 @@
+/**
+ * Canvas Profiles
+ * Loads the student's Canvas accounts from chrome.storage.sync and builds a
+ * configured CanvasAPI client for each one.
+ *
+ * Installs from before profiles existed stored a single canvasUrl / apiToken
+ * pair; that pair is surfaced as a profile with id "default" until the
+ * options page saves a real profile list.
+ */
+
+import { CanvasAPI } from './canvas-api';
+import { CanvasAuthService } from './canvas-auth';
+import type { CanvasProfile } from '../types';
+
+export const LEGACY_PROFILE_ID = 'default';
+
+/**
+ * Get every configured Canvas profile (complete or not)
+ */
+export async function getCanvasProfiles(): Promise<CanvasProfile[]> {
+  const stored = await chrome.storage.sync.get(['canvasProfiles', 'canvasUrl', 'apiToken']);
+
+  if (Array.isArray(stored.canvasProfiles) && stored.canvasProfiles.length > 0) {
+    return stored.canvasProfiles as CanvasProfile[];
+  }
+
+  if (stored.canvasUrl) {
+    return [{
+      id: LEGACY_PROFILE_ID,
+      name: 'Canvas',
+      canvasUrl: stored.canvasUrl,
+      authMethod: 'token',
+      apiToken: stored.apiToken || '',
+    }];
+  }
+
+  return [];
+}
+
+/**
+ * Build a CanvasAPI client for a profile's auth method (pasted token or OAuth2).
+ * Returns null when the profile is missing its URL or credentials.
+ */
+export async function createCanvasAPI(profile: CanvasProfile): Promise<CanvasAPI | null> {
+  if (!profile.canvasUrl) return null;
+
+  const canvasAPI = new CanvasAPI();
+
+  if (profile.authMethod === 'oauth') {
+    const auth = new CanvasAuthService(profile.id);
+    if (!(await auth.getSession())) return null;
+    canvasAPI.configureOAuth(profile.canvasUrl, auth);
+  } else {
+    if (!profile.apiToken) return null;
+    canvasAPI.configure(profile.canvasUrl, profile.apiToken);
+  }
+
+  return canvasAPI;
+}
+
+/**
+ * Whether at least one profile has usable Canvas credentials
+ */
+export async function hasCanvasCredentials(): Promise<boolean> {
+  const profiles = await getCanvasProfiles();
+
+  for (const profile of profiles) {
+    if (await createCanvasAPI(profile)) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Create an empty profile with a fresh id
+ */
+export function createEmptyProfile(name: string): CanvasProfile {
+  return {
+    id: crypto.randomUUID().slice(0, 8),
+    name,
+    canvasUrl: '',
+    authMethod: 'token',
+    apiToken: '',
+  };
+}
+
+/**
+ * Find the profile whose Canvas host matches a page URL (used by the sidebar)
+ */
+export function findProfileForHost(profiles: CanvasProfile[], host: string): CanvasProfile | undefined {
+  return profiles.find(profile => {
+    try {
+      return new URL(profile.canvasUrl).host === host;
+    } catch {
+      return false;
+    }
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * Course Settings
+ * The student's per-course choices (include / exclude, nickname, color,
+ * workload multiplier), stored in chrome.storage.sync as `courseSettings`.
+ *
+ * Courses are keyed by "<profileId>:<courseId>" so the same course id at two
+ * institutions can't share settings. Courses with no entry are included with
+ * their Canvas name and a 1x multiplier.
+ */
+
+import type { AssignmentInput, CourseSettings } from '../types';
+
+export const DEFAULT_COURSE_SETTINGS: CourseSettings = {
+  included: true,
+  nickname: '',
+  color: '',
+  workloadMultiplier: 1,
+};
+
+export const WORKLOAD_MULTIPLIERS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+export function getCourseKey(profileId: string, courseId: number): string {
+  return `${profileId}:${courseId}`;
+}
+
+/**
+ * Settings for one course, falling back to the defaults
+ */
+export function getCourseSettings(
+  all: Record<string, CourseSettings> | undefined,
+  profileId: string,
+  courseId: number,
+): CourseSettings {
+  return { ...DEFAULT_COURSE_SETTINGS, ...all?.[getCourseKey(profileId, courseId)] };
+}
+
+/**
+ * Apply a course's nickname, color and multiplier to one of its items.
+ * A nickname or color set here beats the one the student set in Canvas.
+ */
+export function applyCourseSettings(input: AssignmentInput, settings: CourseSettings): AssignmentInput {
+  return {
+    ...input,
+    courseNickname: settings.nickname || input.courseNickname,
+    courseColor: settings.color || input.courseColor,
+    workloadMultiplier: settings.workloadMultiplier !== 1 ? settings.workloadMultiplier : undefined,
+  };
+}
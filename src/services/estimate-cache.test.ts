@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { estimateCache } from './estimate-cache';
+import type { AssignmentInput } from '../types';
+
+function discussion(entryCount: number, entryWords: number | null): AssignmentInput {
+  return {
+    assignmentID: '1:7',
+    title: 'Week 4 discussion',
+    courseName: 'SOC 200',
+    type: 'discussion',
+    dueDate: '2026-10-20T23:59:00Z',
+    description: '<p>Post 250 words and reply to two classmates.</p>',
+    discussion: { entryCount, entryWords },
+  } as AssignmentInput;
+}
+
+const keyOf = (assignment: AssignmentInput) => estimateCache.getKey(assignment, 'gpt-4o-mini', 2);
+
+describe('EstimateCache.getKey', () => {
+  it('keeps the key while a thread grows within a step', async () => {
+    expect(await keyOf(discussion(4, 1200))).toBe(await keyOf(discussion(6, 1850)));
+    expect(await keyOf(discussion(12, null))).toBe(await keyOf(discussion(15, null)));
+  });
+
+  it('changes the key once the thread crosses a step', async () => {
+    expect(await keyOf(discussion(6, 1850))).not.toBe(await keyOf(discussion(8, 2100)));
+  });
+
+  it('stops telling threads apart past the reading cap', async () => {
+    expect(await keyOf(discussion(60, 9000))).toBe(await keyOf(discussion(90, 14000)));
+  });
+
+  it('changes the key with the model', async () => {
+    const assignment = discussion(4, 1200);
+    expect(await keyOf(assignment)).not.toBe(await estimateCache.getKey(assignment, 'llama3:8b', 2));
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Estimate Cache
+ * AI estimates keyed by a hash of everything that goes into them: the
+ * assignment fields the prompt is built from, the model that answered and
+ * the prompt version. A refresh only sends new or edited assignments to the
+ * provider, and switching models (or changing the prompts) redoes them.
+ * A discussion's thread only counts in coarse steps, so classmates posting
+ * doesn't redo its estimate on every refresh.
+ *
+ * Stored in chrome.storage.local as `estimateCache`. Entries hold the
+ * estimate before the course workload multiplier, so changing a multiplier
+ * never costs a request. Heuristic estimates are cheap and never cached.
+ */
+
+import type { AIEstimateResult, AssignmentInput, DiscussionDetails } from '../types';
+
+export const ESTIMATE_CACHE_KEY = 'estimateCache';
+
+/** Entries not used for this long are dropped. */
+const MAX_UNUSED_DAYS = 30;
+
+/** Hard cap on entries, least recently used dropped first. */
+const MAX_ENTRIES = 500;
+
+/** Thread size steps in the key: words while entries are visible, entries while hidden. */
+const THREAD_WORDS_STEP = 1000;
+const THREAD_ENTRIES_STEP = 10;
+
+/** Past this many words the estimator stops counting the thread anyway. */
+const MAX_THREAD_WORDS = 6000;
+
+export type CachedEstimate = Omit<AIEstimateResult, 'assignmentID'> & { usedAt: number };
+
+export class EstimateCache {
+  /**
+   * Content hash (SHA-256, hex) of the inputs the estimator reads. The
+   * workload multiplier is applied afterwards and is left out.
+   */
+  async getKey(assignment: AssignmentInput, model: string, promptVersion: number): Promise<string> {
+    const content = JSON.stringify([
+      promptVersion,
+      model,
+      assignment.title,
+      assignment.type,
+      assignment.courseName,
+      assignment.pointsPossible ?? null,
+      assignment.submissionTypes || [],
+      assignment.description || '',
+      assignment.rubric || null,
+      assignment.readingWords ?? null,
+      assignment.readingPages ?? null,
+      assignment.quiz || null,
+      getThreadSize(assignment.discussion),
+    ]);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * The cached estimates for these keys, marking them as used
+   */
+  async lookup(keys: string[]): Promise<Map<string, CachedEstimate>> {
+    const cache = await this.load();
+    const hits = new Map<string, CachedEstimate>();
+    const now = Date.now();
+
+    for (const key of keys) {
+      const entry = cache[key];
+      if (entry) {
+        entry.usedAt = now;
+        hits.set(key, entry);
+      }
+    }
+
+    if (hits.size > 0) {
+      await this.save(cache);
+    }
+    return hits;
+  }
+
+  /**
+   * Add fresh AI estimates, pruning stale entries
+   */
+  async store(entries: Map<string, AIEstimateResult>): Promise<void> {
+    if (entries.size === 0) return;
+
+    const cache = await this.load();
+    const now = Date.now();
+    for (const [key, { assignmentID: _assignmentID, ...estimate }] of entries) {
+      cache[key] = { ...estimate, usedAt: now };
+    }
+    await this.save(cache);
+  }
+
+  private async load(): Promise<Record<string, CachedEstimate>> {
+    const { [ESTIMATE_CACHE_KEY]: cache } = await chrome.storage.local.get(ESTIMATE_CACHE_KEY);
+    return cache || {};
+  }
+
+  private async save(cache: Record<string, CachedEstimate>): Promise<void> {
+    const cutoff = Date.now() - MAX_UNUSED_DAYS * 24 * 60 * 60 * 1000;
+    const kept = Object.entries(cache)
+      .filter(([, entry]) => entry.usedAt >= cutoff)
+      .sort(([, a], [, b]) => b.usedAt - a.usedAt)
+      .slice(0, MAX_ENTRIES);
+
+    await chrome.storage.local.set({ [ESTIMATE_CACHE_KEY]: Object.fromEntries(kept) });
+  }
+}
+
+/**
+ * A discussion's thread size rounded down to its step, or null for other items
+ */
+function getThreadSize(discussion: DiscussionDetails | undefined): string | null {
+  if (!discussion) return null;
+  if (discussion.entryWords === null) {
+    return `entries:${Math.floor(discussion.entryCount / THREAD_ENTRIES_STEP)}`;
+  }
+  return `words:${Math.floor(Math.min(discussion.entryWords, MAX_THREAD_WORDS) / THREAD_WORDS_STEP)}`;
+}
+
+export const estimateCache = new EstimateCache();
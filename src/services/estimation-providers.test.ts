@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CompatibleProvider, OllamaProvider, isLocalHost, parseBatchContent, parseEstimateContent } from './estimation-providers';
+
+function ollamaReplying(text: string): OllamaProvider {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ response: text }))));
+  const provider = new OllamaProvider();
+  provider.configure({});
+  return provider;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseEstimateContent', () => {
+  it('reads JSON wrapped in prose and drops unknown confidence values', () => {
+    const content = 'Sure! {"minutes": 45, "lowMinutes": 30, "highMinutes": 70, "reasoning": "Short essay", "confidence": "very high"} Hope that helps.';
+    expect(parseEstimateContent(content, 'Ollama')).toMatchObject({
+      minutes: 45,
+      lowMinutes: 30,
+      highMinutes: 70,
+      reasoning: 'Short essay',
+      confidence: undefined,
+    });
+  });
+
+  it('fails on replies without usable minutes', () => {
+    expect(() => parseEstimateContent('{"minutes": 0}', 'OpenAI')).toThrow(/no usable minutes/);
+    expect(() => parseEstimateContent('I cannot estimate this.', 'OpenAI')).toThrow(/not JSON/);
+  });
+});
+
+describe('parseBatchContent', () => {
+  it('reads a wrapped array and drops entries without an id or minutes', () => {
+    const content = '{"estimates": [{"assignmentID": 7, "minutes": 20}, {"minutes": 30}, {"assignmentID": "9", "minutes": -5}]}';
+    expect(parseBatchContent(content, 'OpenAI')).toEqual([expect.objectContaining({ assignmentID: '7', minutes: 20 })]);
+  });
+
+  it('fails when there is no array of estimates', () => {
+    expect(() => parseBatchContent('{"minutes": 20}', 'OpenAI')).toThrow(/no array/);
+  });
+});
+
+describe('OllamaProvider.estimate', () => {
+  it('falls back to the minutes named in a prose reply', async () => {
+    const estimate = await ollamaReplying('This should take about 40 minutes.').estimate('prompt');
+    expect(estimate.minutes).toBe(40);
+  });
+
+  it('does not take "0 minutes" in prose as an estimate', async () => {
+    await expect(ollamaReplying('Reading the prompt takes 0 minutes.').estimate('prompt')).rejects.toMatchObject({ kind: 'malformed' });
+  });
+
+  it('fails on a reply it cannot read instead of guessing', async () => {
+    await expect(ollamaReplying('I am not sure.').estimate('prompt')).rejects.toMatchObject({ kind: 'malformed' });
+  });
+});
+
+describe('isLocalHost', () => {
+  it('accepts loopback and private network hosts', () => {
+    const hosts = ['http://localhost:11434', 'http://127.0.0.1:1234/v1', 'http://[::1]:8080', 'http://192.168.1.100:11434', 'http://10.0.0.5', 'http://172.20.3.4:8000', 'http://[fd12:3456::1]:1234'];
+    expect(hosts.filter(isLocalHost)).toEqual(hosts);
+  });
+
+  it('rejects public addresses and host names', () => {
+    const hosts = ['https://api.openai.com/v1', 'http://172.32.0.1', 'http://8.8.8.8:11434', 'https://ollama.example.com', 'not a url'];
+    expect(hosts.filter(isLocalHost)).toEqual([]);
+  });
+});
+
+describe('isLocal', () => {
+  it('follows the configured host, not the provider', () => {
+    const ollama = new OllamaProvider();
+    ollama.configure({ localLlmUrl: 'https://gpu.example.com:11434' });
+    expect(ollama.isLocal()).toBe(false);
+
+    const compatible = new CompatibleProvider();
+    compatible.configure({ compatibleBaseUrl: 'http://localhost:1234/v1', compatibleModel: 'qwen2.5-7b-instruct' });
+    expect(compatible.isLocal()).toBe(true);
+  });
+});
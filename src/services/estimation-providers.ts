@@ -0,0 +1,727 @@
+/**
+ * Estimation Providers
+ * Every AI backend the estimator can use implements EstimationProvider and is
+ * registered here under the id stored as `aiProvider` in settings. The
+ * TimeEstimator only talks to the interface, and the Options page renders
+ * each provider's settings from its descriptor, so adding a backend means
+ * adding a class and a registerProvider() call.
+ */
+
+import { AIProviderError, fromAINetworkFailure, fromAIResponse } from './ai-errors';
+import { licensingService } from './licensing';
+import type { EstimateConfidence, Settings, UserTierLevel } from '../types';
+
+const CONFIDENCE_LEVELS = ['low', 'medium', 'high'] as const;
+
+/** Used when no model is set, or the saved one isn't allowed on the student's tier. */
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+const DEFAULT_OLLAMA_MODEL = 'qwen2.5-coder:1.5b';
+
+/** How a /chat/completions request asks for JSON; null relies on the prompt alone. */
+type ChatResponseFormat = 'json_schema' | 'json_object' | null;
+
+/**
+ * Structured output schema for Chat Completions. Strict mode needs every
+ * property listed as required, so the per-type parts are nullable instead of
+ * optional; the prompt says which ones apply.
+ */
+const ESTIMATE_SCHEMA = {
+  type: 'object',
+  properties: {
+    minutes: { type: 'number', description: 'Total minutes for an average student' },
+    lowMinutes: { type: 'number', description: 'Optimistic end of minutes: a student for whom it goes well' },
+    highMinutes: { type: 'number', description: 'Pessimistic end of minutes: a student who gets stuck' },
+    prepMinutes: { type: ['number', 'null'], description: 'Quizzes only: minutes of study beforehand' },
+    readingMinutes: { type: ['number', 'null'], description: 'Discussions only: minutes reading the prompt and thread' },
+    writingMinutes: { type: ['number', 'null'], description: 'Discussions only: minutes writing posts and replies' },
+    reasoning: { type: 'string', description: 'Brief explanation' },
+    confidence: { type: 'string', enum: CONFIDENCE_LEVELS, description: 'How well the details given pin down the estimate' },
+  },
+  required: ['minutes', 'lowMinutes', 'highMinutes', 'prepMinutes', 'readingMinutes', 'writingMinutes', 'reasoning', 'confidence'],
+  additionalProperties: false,
+};
+
+/**
+ * Schema for a batched answer. Structured output needs an object at the top,
+ * so the array is wrapped in `estimates`.
+ */
+const BATCH_SCHEMA = {
+  type: 'object',
+  properties: {
+    estimates: {
+      type: 'array',
+      items: {
+        ...ESTIMATE_SCHEMA,
+        properties: { assignmentID: { type: 'string' }, ...ESTIMATE_SCHEMA.properties },
+        required: ['assignmentID', ...ESTIMATE_SCHEMA.required],
+      },
+    },
+  },
+  required: ['estimates'],
+  additionalProperties: false,
+};
+
+/** A provider's answer for one assignment, before the assignmentID is attached. */
+export interface RawAIResponse {
+  minutes: number;
+  lowMinutes?: number;
+  highMinutes?: number;
+  prepMinutes?: number;
+  readingMinutes?: number;
+  writingMinutes?: number;
+  reasoning?: string;
+  confidence?: EstimateConfidence;
+}
+
+/** One entry of a batched answer, keyed by the id the prompt gave. */
+export interface RawBatchEntry extends RawAIResponse {
+  assignmentID: string;
+}
+
+/** Settings keys that hold a string, i.e. the ones a provider field can edit. */
+export type ProviderSettingKey = {
+  [K in keyof Settings]-?: Settings[K] extends string | undefined ? K : never
+}[keyof Settings];
+
+/** One input the Options page renders for a provider. */
+export interface ProviderField {
+  key: ProviderSettingKey;
+  label: string;
+  kind: 'text' | 'password' | 'select';
+  defaultValue: string;
+  /** May be left empty */
+  optional?: boolean;
+  placeholder?: string;
+  help?: string;
+  /** Values offered for a select, or suggested for a text field */
+  options?: Array<{ value: string; label: string }>;
+  /** Select options are limited by the student's tier (licensingService.isModelAllowed) */
+  tierGated?: boolean;
+  /** Text fields: offer the model ids the health check found */
+  suggestModels?: boolean;
+  /** Shape the value must have, with the hint shown when it doesn't */
+  pattern?: RegExp;
+  patternHint?: string;
+}
+
+/** What the Options page needs to show a provider. */
+export interface ProviderDescriptor {
+  id: string;
+  label: string;
+  fields: ProviderField[];
+  /** Field holding a server URL whose host must be granted before use */
+  hostField?: ProviderSettingKey;
+  /** Setup steps; `backticks` render as code */
+  setupSteps?: string[];
+  healthCheckLabel: string;
+}
+
+export interface ProviderCapabilities {
+  /** Replies are held to a JSON schema rather than just asked for JSON */
+  structuredOutput: boolean;
+  requiresApiKey: boolean;
+  /** Can answer a batch prompt covering several assignments */
+  batching: boolean;
+}
+
+export interface ProviderHealth {
+  ok: boolean;
+  message: string;
+  models?: string[];
+}
+
+export interface EstimationProvider {
+  readonly descriptor: ProviderDescriptor;
+  readonly capabilities: ProviderCapabilities;
+  /** Read this provider's fields from settings; the tier gates models */
+  configure(settings: Partial<Settings>, tier: UserTierLevel): void;
+  /** Whether the settings are complete enough to try a request */
+  isConfigured(): boolean;
+  /** Which model answers, so estimates cached from another one aren't reused */
+  modelIdentity(): string;
+  /**
+   * Prompts stay on the student's machine or network, judged from the
+   * configured host (syllabus review requires this)
+   */
+  isLocal(): boolean;
+  /** Estimate from a prompt built by the TimeEstimator */
+  estimate(prompt: string): Promise<RawAIResponse>;
+  /** Estimate several assignments from one batch prompt; entries may be missing */
+  estimateBatch(prompt: string): Promise<RawBatchEntry[]>;
+  /** Free-form completion, for prompts with their own answer format */
+  generate(prompt: string): Promise<string>;
+  healthCheck(): Promise<ProviderHealth>;
+}
+
+const registry = new Map<string, () => EstimationProvider>();
+
+/**
+ * Make a provider selectable. The factory is called once per estimator, so
+ * providers may keep per-refresh state (e.g. learned server quirks).
+ */
+export function registerProvider(id: string, factory: () => EstimationProvider): void {
+  registry.set(id, factory);
+}
+
+/**
+ * A new instance of the provider registered under `id`, or null for 'none'
+ * and unknown ids
+ */
+export function createProvider(id: string | null | undefined): EstimationProvider | null {
+  const factory = id ? registry.get(id) : undefined;
+  return factory ? factory() : null;
+}
+
+/**
+ * Descriptors of every registered provider, in registration order
+ */
+export function getProviderDescriptors(): ProviderDescriptor[] {
+  return Array.from(registry.values(), factory => factory().descriptor);
+}
+
+/**
+ * Every settings key some provider reads, for loading them in one call
+ */
+export function getProviderSettingKeys(): ProviderSettingKey[] {
+  return Array.from(new Set(getProviderDescriptors().flatMap(d => d.fields.map(f => f.key))));
+}
+
+/**
+ * Read an estimate out of a JSON reply. Unknown confidence values are
+ * dropped rather than failing the whole estimate.
+ */
+export function parseEstimateContent(content: string, provider: string): RawAIResponse {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1));
+  } catch {
+    throw new AIProviderError('malformed', `${provider} response was not JSON: ${content.slice(0, 200)}`);
+  }
+
+  const estimate = toRawResponse(parsed);
+  if (!estimate) {
+    throw new AIProviderError('malformed', `${provider} response has no usable minutes: ${content.slice(0, 200)}`);
+  }
+  return estimate;
+}
+
+/**
+ * Read the entries of a batched reply: a bare JSON array, or an object
+ * wrapping one (structured output and JSON mode can't return a bare array).
+ * Entries without an id or usable minutes are dropped, so the caller sees
+ * them as gaps.
+ */
+export function parseBatchContent(content: string, provider: string): RawBatchEntry[] {
+  const start = content.search(/[[{]/);
+  const end = Math.max(content.lastIndexOf(']'), content.lastIndexOf('}'));
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.slice(start, end + 1));
+  } catch {
+    throw new AIProviderError('malformed', `${provider} batch response was not JSON: ${content.slice(0, 200)}`);
+  }
+
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : Object.values(parsed as Record<string, unknown>).find(Array.isArray);
+  if (!entries) {
+    throw new AIProviderError('malformed', `${provider} batch response has no array of estimates`);
+  }
+
+  return entries.flatMap(entry => {
+    if (!entry || typeof entry !== 'object') return [];
+    const { assignmentID } = entry as { assignmentID?: unknown };
+    const estimate = toRawResponse(entry as Record<string, unknown>);
+    if (estimate === null || (typeof assignmentID !== 'string' && typeof assignmentID !== 'number')) return [];
+    return [{ ...estimate, assignmentID: String(assignmentID) }];
+  });
+}
+
+/**
+ * The estimate fields of one parsed JSON object, or null without usable minutes
+ */
+function toRawResponse(parsed: Record<string, unknown>): RawAIResponse | null {
+  const minutes = Number(parsed.minutes);
+  if (!Number.isFinite(minutes) || minutes <= 0) return null;
+
+  const part = (value: unknown) => typeof value === 'number' && value >= 0 ? value : undefined;
+  return {
+    minutes,
+    lowMinutes: part(parsed.lowMinutes),
+    highMinutes: part(parsed.highMinutes),
+    prepMinutes: part(parsed.prepMinutes),
+    readingMinutes: part(parsed.readingMinutes),
+    writingMinutes: part(parsed.writingMinutes),
+    reasoning: typeof parsed.reasoning === 'string' ? parsed.reasoning : undefined,
+    confidence: CONFIDENCE_LEVELS.find(level => level === parsed.confidence),
+  };
+}
+
+/**
+ * Base URL of an OpenAI-compatible API, ending in its version segment:
+ * "http://localhost:1234" and ".../v1/chat/completions" both become
+ * "http://localhost:1234/v1"
+ */
+export function normalizeChatBaseUrl(url: string): string {
+  const trimmed = url.trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '').replace(/\/models$/, '');
+  if (!trimmed) return '';
+  try {
+    return new URL(trimmed).pathname === '/' ? `${trimmed}/v1` : trimmed;
+  } catch {
+    return trimmed;
+  }
+}
+
+/**
+ * Whether a URL points at this machine (localhost, loopback) or a private
+ * network address (10.x, 172.16-31.x, 192.168.x, link-local, IPv6 ULA).
+ * Host names other than localhost could resolve anywhere, so they don't count.
+ */
+export function isLocalHost(url: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  } catch {
+    return false;
+  }
+
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) return true;
+
+  const ipv4 = hostname.match(/^(\d+)\.(\d+)\.\d+\.\d+$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 127 || a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 169 && b === 254);
+  }
+
+  return hostname === '::1' || /^f[cd][0-9a-f]{0,2}:/.test(hostname) || /^fe[89ab][0-9a-f]?:/.test(hostname);
+}
+
+/**
+ * Local models through Ollama's /api/generate
+ */
+export class OllamaProvider implements EstimationProvider {
+  readonly descriptor: ProviderDescriptor = {
+    id: 'local',
+    label: 'Local LLM (Ollama)',
+    fields: [
+      {
+        key: 'localLlmUrl',
+        label: 'Ollama Server URL',
+        kind: 'text',
+        defaultValue: DEFAULT_OLLAMA_URL,
+        placeholder: DEFAULT_OLLAMA_URL,
+        help: 'Default is http://localhost:11434. For a remote PC, use its IP address (e.g., http://192.168.1.100:11434)',
+      },
+      {
+        key: 'localLlmModel',
+        label: 'Model Name',
+        kind: 'text',
+        defaultValue: DEFAULT_OLLAMA_MODEL,
+        placeholder: 'llama3:8b',
+        help: 'The model name as shown in `ollama list`',
+        options: [
+          { value: 'qwen2.5-coder:1.5b', label: 'Qwen2.5 Coder 1.5B (Fast & Efficient)' },
+          { value: 'llama3:8b', label: 'Llama 3 8B (More capable)' },
+        ],
+        suggestModels: true,
+      },
+    ],
+    hostField: 'localLlmUrl',
+    setupSteps: [
+      'Install Ollama from https://ollama.ai',
+      'Run: `ollama pull qwen2.5-coder:1.5b`',
+      'Start server: `ollama serve`',
+      'For network access: `OLLAMA_HOST=0.0.0.0 ollama serve`',
+    ],
+    healthCheckLabel: 'Test Connection',
+  };
+
+  readonly capabilities: ProviderCapabilities = { structuredOutput: false, requiresApiKey: false, batching: true };
+
+  private url = DEFAULT_OLLAMA_URL;
+  private model = DEFAULT_OLLAMA_MODEL;
+
+  configure(settings: Partial<Settings>): void {
+    this.url = (settings.localLlmUrl || DEFAULT_OLLAMA_URL).replace(/\/+$/, '').replace(/\/api\/generate$/, '');
+    this.model = settings.localLlmModel || DEFAULT_OLLAMA_MODEL;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  modelIdentity(): string {
+    return this.model;
+  }
+
+  isLocal(): boolean {
+    return isLocalHost(this.url);
+  }
+
+  /**
+   * Small local models often wrap the JSON in prose, so this falls back to
+   * the first "<n> minutes" in the text. A reply with neither is an error,
+   * leaving the assignment to the heuristic instead of caching a guess.
+   */
+  async estimate(prompt: string): Promise<RawAIResponse> {
+    const content = await this.generate(prompt);
+
+    try {
+      return parseEstimateContent(content, 'Ollama');
+    } catch (error) {
+      const match = content.match(/(\d+)\s*minutes?/i);
+      const estimate = match && toRawResponse({ minutes: Number(match[1]), reasoning: content });
+      if (estimate) return estimate;
+      throw error;
+    }
+  }
+
+  async estimateBatch(prompt: string): Promise<RawBatchEntry[]> {
+    return parseBatchContent(await this.generate(prompt), 'Ollama');
+  }
+
+  async generate(prompt: string): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.url}/api/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          prompt: prompt,
+          stream: false,
+          options: {
+            temperature: 0.3,
+          }
+        })
+      });
+    } catch (error) {
+      throw fromAINetworkFailure('Ollama', error);
+    }
+
+    if (!response.ok) {
+      throw fromAIResponse('Ollama', response.status, await response.text());
+    }
+
+    const data = await response.json();
+    return data.response || '';
+  }
+
+  /**
+   * Lists the pulled models (/api/tags) and checks the configured one is among them
+   */
+  async healthCheck(): Promise<ProviderHealth> {
+    try {
+      const response = await fetch(`${this.url}/api/tags`);
+      if (!response.ok) {
+        return { ok: false, message: `Ollama answered with ${response.status}. Is the URL right?` };
+      }
+      const data = await response.json();
+      const models: string[] = (data.models || []).map((model: { name: string }) => model.name);
+      if (!models.includes(this.model)) {
+        return { ok: false, message: `Connected, but "${this.model}" isn't pulled. Run: ollama pull ${this.model}`, models };
+      }
+      return { ok: true, message: 'Connected successfully!', models };
+    } catch {
+      return { ok: false, message: 'Connection failed. Is Ollama running?' };
+    }
+  }
+}
+
+/**
+ * Shared plumbing for APIs that speak OpenAI's /chat/completions and /models
+ */
+abstract class ChatCompletionsProvider implements EstimationProvider {
+  abstract readonly descriptor: ProviderDescriptor;
+  abstract readonly capabilities: ProviderCapabilities;
+
+  protected baseUrl = '';
+  protected apiKey: string | null = null;
+  protected model = '';
+
+  /** Name used in error messages */
+  protected abstract readonly name: string;
+
+  abstract configure(settings: Partial<Settings>, tier: UserTierLevel): void;
+  abstract isConfigured(): boolean;
+  abstract estimate(prompt: string): Promise<RawAIResponse>;
+  abstract estimateBatch(prompt: string): Promise<RawBatchEntry[]>;
+
+  /** The same model id can name different models on different servers */
+  modelIdentity(): string {
+    return `${this.baseUrl} ${this.model}`;
+  }
+
+  isLocal(): boolean {
+    return isLocalHost(this.baseUrl);
+  }
+
+  generate(prompt: string): Promise<string> {
+    return this.requestChatCompletion(prompt, null);
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    try {
+      const models = await this.listModels();
+      if (this.model && models.length > 0 && !models.includes(this.model)) {
+        return { ok: false, message: `Connected, but "${this.model}" is not one of its ${models.length} models.`, models };
+      }
+      return { ok: true, message: `Connected! ${models.length} model${models.length === 1 ? '' : 's'} available.`, models };
+    } catch (error) {
+      return { ok: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * POST a prompt to /chat/completions and return the reply text.
+   * With 'json_schema' the reply is held to `schema`; 'json_object' is
+   * plain JSON mode for models without structured output.
+   */
+  protected async requestChatCompletion(
+    prompt: string,
+    format: ChatResponseFormat,
+    schema: object = ESTIMATE_SCHEMA
+  ): Promise<string> {
+    const responseFormat = format === 'json_schema'
+      ? { type: 'json_schema', json_schema: { name: schema === BATCH_SCHEMA ? 'time_estimates' : 'time_estimate', strict: true, schema } }
+      : format ? { type: format } : undefined;
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          temperature: 0.3,
+          messages: [
+            { role: 'system', content: 'You estimate student workload and reply with JSON only.' },
+            { role: 'user', content: prompt },
+          ],
+          response_format: responseFormat,
+        }),
+      });
+    } catch (error) {
+      throw fromAINetworkFailure(this.name, error);
+    }
+
+    if (!response.ok) {
+      throw fromAIResponse(this.name, response.status, await response.text());
+    }
+
+    let data;
+    try {
+      data = await response.json();
+    } catch {
+      throw new AIProviderError('malformed', `${this.name} returned a non-JSON response from ${this.baseUrl}`);
+    }
+    const message = data.choices?.[0]?.message;
+    if (message?.refusal) {
+      throw new AIProviderError('malformed', `${this.name} declined to answer: ${message.refusal}`);
+    }
+    if (typeof message?.content !== 'string' || message.content.length === 0) {
+      throw new AIProviderError('malformed', `${this.name} returned an empty response`);
+    }
+    return message.content;
+  }
+
+  /**
+   * Model ids from the /models listing
+   */
+  protected async listModels(): Promise<string[]> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      });
+    } catch (error) {
+      throw fromAINetworkFailure(this.name, error);
+    }
+
+    if (!response.ok) {
+      throw fromAIResponse(this.name, response.status, await response.text());
+    }
+
+    try {
+      const data = await response.json();
+      return (data.data || []).map((model: { id: string }) => model.id);
+    } catch {
+      throw new AIProviderError('malformed', `${this.name} did not return a model list; check the base URL`);
+    }
+  }
+}
+
+/**
+ * OpenAI's Chat Completions API with the student's own key
+ */
+export class OpenAIProvider extends ChatCompletionsProvider {
+  readonly descriptor: ProviderDescriptor = {
+    id: 'openai',
+    label: 'OpenAI (GPT)',
+    fields: [
+      {
+        key: 'openaiApiKey',
+        label: 'OpenAI API Key',
+        kind: 'password',
+        defaultValue: '',
+        placeholder: 'sk-...',
+        help: 'Create one at https://platform.openai.com/api-keys. It is stored in your browser and only sent to OpenAI.',
+        pattern: /^sk-[A-Za-z0-9_-]{20,}$/,
+        patternHint: 'OpenAI keys start with `sk-`. Check that the whole key was pasted.',
+      },
+      {
+        key: 'estimationModel',
+        label: 'Model',
+        kind: 'select',
+        defaultValue: DEFAULT_OPENAI_MODEL,
+        options: [
+          { value: 'gpt-4o-mini', label: 'GPT-4o mini (Fast & cheap) *' },
+          { value: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo (Legacy)' },
+          { value: 'gpt-4o', label: 'GPT-4o (Most capable)' },
+        ],
+        tierGated: true,
+      },
+    ],
+    healthCheckLabel: 'Verify Key',
+  };
+
+  readonly capabilities: ProviderCapabilities = { structuredOutput: true, requiresApiKey: true, batching: true };
+
+  protected readonly name = 'OpenAI';
+
+  configure(settings: Partial<Settings>, tier: UserTierLevel): void {
+    this.baseUrl = OPENAI_BASE_URL;
+    this.apiKey = settings.openaiApiKey?.trim() || null;
+    this.model = settings.estimationModel || DEFAULT_OPENAI_MODEL;
+    if (!this.model.startsWith('gpt-') || !licensingService.isModelAllowed(this.model, tier)) {
+      this.model = DEFAULT_OPENAI_MODEL;
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.apiKey !== null;
+  }
+
+  /**
+   * gpt-3.5 has no structured output, so it gets plain JSON mode
+   */
+  async estimate(prompt: string): Promise<RawAIResponse> {
+    if (!this.apiKey) {
+      throw new AIProviderError('auth', 'No OpenAI API key is set');
+    }
+    return parseEstimateContent(await this.requestChatCompletion(prompt, this.format), this.name);
+  }
+
+  async estimateBatch(prompt: string): Promise<RawBatchEntry[]> {
+    if (!this.apiKey) {
+      throw new AIProviderError('auth', 'No OpenAI API key is set');
+    }
+    return parseBatchContent(await this.requestChatCompletion(prompt, this.format, BATCH_SCHEMA), this.name);
+  }
+
+  private get format(): ChatResponseFormat {
+    return /^gpt-3\.5/.test(this.model) ? 'json_object' : 'json_schema';
+  }
+
+  /**
+   * Lists models, so a wrong key shows up in Options instead of as a silent
+   * fallback to heuristics
+   */
+  async healthCheck(): Promise<ProviderHealth> {
+    const health = await super.healthCheck();
+    return health.ok ? { ...health, message: 'Key works!' } : health;
+  }
+}
+
+/**
+ * Any server speaking OpenAI's protocol: LM Studio, llama.cpp server, vLLM,
+ * a campus gateway
+ */
+export class CompatibleProvider extends ChatCompletionsProvider {
+  readonly descriptor: ProviderDescriptor = {
+    id: 'compatible',
+    label: 'OpenAI-compatible server (LM Studio, vLLM, ...)',
+    fields: [
+      {
+        key: 'compatibleBaseUrl',
+        label: 'Base URL',
+        kind: 'text',
+        defaultValue: 'http://localhost:1234/v1',
+        placeholder: 'http://localhost:1234/v1',
+        help: 'The URL before `/chat/completions`. LM Studio uses port 1234, llama.cpp 8080, vLLM 8000.',
+      },
+      {
+        key: 'compatibleApiKey',
+        label: 'API Key (optional)',
+        kind: 'password',
+        defaultValue: '',
+        optional: true,
+        placeholder: 'Leave empty for local servers',
+      },
+      {
+        key: 'compatibleModel',
+        label: 'Model Name',
+        kind: 'text',
+        defaultValue: '',
+        placeholder: 'qwen2.5-7b-instruct',
+        help: 'Test the connection to pick from the models the server lists.',
+        suggestModels: true,
+      },
+    ],
+    hostField: 'compatibleBaseUrl',
+    healthCheckLabel: 'Test Connection',
+  };
+
+  readonly capabilities: ProviderCapabilities = { structuredOutput: true, requiresApiKey: false, batching: true };
+
+  protected readonly name = 'Compatible endpoint';
+
+  private supportsSchema = true;
+
+  configure(settings: Partial<Settings>): void {
+    this.baseUrl = normalizeChatBaseUrl(settings.compatibleBaseUrl || '');
+    this.apiKey = settings.compatibleApiKey?.trim() || null;
+    this.model = settings.compatibleModel || '';
+  }
+
+  isConfigured(): boolean {
+    return this.baseUrl !== '' && this.model !== '';
+  }
+
+  async estimate(prompt: string): Promise<RawAIResponse> {
+    return parseEstimateContent(await this.complete(prompt, ESTIMATE_SCHEMA), this.name);
+  }
+
+  async estimateBatch(prompt: string): Promise<RawBatchEntry[]> {
+    return parseBatchContent(await this.complete(prompt, BATCH_SCHEMA), this.name);
+  }
+
+  /**
+   * Servers that reject structured output get the plain prompt, which
+   * already asks for JSON only, from then on
+   */
+  private async complete(prompt: string, schema: object): Promise<string> {
+    if (this.supportsSchema) {
+      try {
+        return await this.requestChatCompletion(prompt, 'json_schema', schema);
+      } catch (error) {
+        if (!(error instanceof AIProviderError) || (error.status !== 400 && error.status !== 422)) throw error;
+        this.supportsSchema = false;
+      }
+    }
+    return this.requestChatCompletion(prompt, null);
+  }
+}
+
+registerProvider('local', () => new OllamaProvider());
+registerProvider('openai', () => new OpenAIProvider());
+registerProvider('compatible', () => new CompatibleProvider());
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { extractSyllabusItems, getTasksInWindow, type SyllabusSource } from './syllabus-parser';
+import type { AssignmentInput } from '../types';
+
+const now = new Date(2026, 8, 1, 9, 0);
+
+function source(syllabusBody: string): SyllabusSource {
+  return {
+    courseId: 42,
+    courseName: 'HIST 101',
+    courseNickname: null,
+    courseColor: null,
+    syllabusBody,
+    htmlUrl: 'https://canvas.example.edu/courses/42/assignments/syllabus',
+  };
+}
+
+describe('extractSyllabusItems', () => {
+  it('keeps dated deliverables and skips topics, breaks and past dates', () => {
+    const items = extractSyllabusItems(source(`
+      <ul>
+        <li>Sept 8: Lecture on the Reformation</li>
+        <li>Essay 1 due Sept 15</li>
+        <li>Oct 12 - No class, fall break</li>
+        <li>Quiz 0 due Aug 20</li>
+      </ul>`), now);
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ title: 'Essay 1', type: 'essay', courseId: 42 });
+    expect(new Date(items[0].dueDate)).toEqual(new Date(2026, 8, 15, 23, 59));
+  });
+
+  it('reads table rows, weekdays and times of day', () => {
+    const items = extractSyllabusItems(source(
+      '<table><tr><td>Week 6</td><td>Thursday, 10/8</td><td>Midterm exam at 2pm</td></tr></table>'
+    ), now);
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ title: 'Midterm exam', type: 'exam' });
+    expect(new Date(items[0].dueDate)).toEqual(new Date(2026, 9, 8, 14, 0));
+  });
+
+  it('dates a range by its end and splits semicolon lists', () => {
+    const items = extractSyllabusItems(source(
+      '<p>Project presentations Nov 30 - Dec 4; Lab report 3 due 11/13</p>'
+    ), now);
+
+    expect(items.map(item => [item.title, new Date(item.dueDate).getDate()])).toEqual([
+      ['Project presentations', 4],
+      ['Lab report 3', 13],
+    ]);
+  });
+
+  it('gives an unchanged syllabus the same ids on every scan', () => {
+    const body = '<p>Final paper due December 10</p>';
+    const first = extractSyllabusItems(source(body), now);
+    const second = extractSyllabusItems(source(body), new Date(2026, 9, 1));
+
+    expect(first[0].assignmentID).toMatch(/^syllabus_42_/);
+    expect(second[0].assignmentID).toBe(first[0].assignmentID);
+  });
+});
+
+describe('getTasksInWindow', () => {
+  it('keeps tasks from now to the end of the last day', () => {
+    const task = (assignmentID: string, dueDate: Date) => ({ assignmentID, dueDate: dueDate.toISOString() }) as AssignmentInput;
+    const tasks = [
+      task('past', new Date(2026, 7, 31)),
+      task('inside', new Date(2026, 8, 8, 23, 59)),
+      task('outside', new Date(2026, 8, 9, 0, 1)),
+    ];
+
+    expect(getTasksInWindow(tasks, 7, now).map(t => t.assignmentID)).toEqual(['inside']);
+  });
+});
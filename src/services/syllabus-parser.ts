@@ -0,0 +1,175 @@
+/**
+ * Syllabus Parser
+ * Pulls dated deliverables ("Essay 1 due Sept 15", "Midterm – 10/21") out of a
+ * course's syllabus_body for instructors who only list deadlines there.
+ *
+ * Extraction is rule based: the HTML is split into lines (paragraphs, list
+ * items, table rows), and a line becomes a candidate when it has both a date
+ * and a deliverable keyword. The student reviews the candidates in Options;
+ * accepted ones are stored in chrome.storage.local as `syllabusTasks` and
+ * merged into every refresh like any other Canvas item.
+ */
+
+import { TIME_OF_DAY, applyTimeOfDay, findDateMentions } from '../utils/date-mentions';
+import type { AssignmentInput, AssignmentType } from '../types';
+
+export const SYLLABUS_TASKS_KEY = 'syllabusTasks';
+
+/** A deliverable found in a syllabus, with the line it came from. */
+export interface SyllabusItem extends AssignmentInput {
+  type: AssignmentType;
+  excerpt: string;
+}
+
+/** The course a syllabus belongs to, as returned by CanvasAPI.getSyllabi. */
+export interface SyllabusSource {
+  courseId: number;
+  courseName: string;
+  courseNickname: string | null;
+  courseColor: string | null;
+  syllabusBody: string;
+  htmlUrl: string;
+}
+
+const WEEKDAY = /\b(?:mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)(?:day|nesday|sday|urday)?\b\.?,?/gi;
+
+/** Words that make a dated line a deliverable rather than a lecture topic */
+const DELIVERABLE =
+  /\b(due|submit|submission|turn(?:ed)? in|exams?|midterms?|finals?|quiz(?:zes)?|tests?|papers?|essays?|projects?|assignments?|homework|hw|labs?|presentations?|reports?|proposals?|drafts?|problem sets?|psets?|reflections?|portfolios?)\b/i;
+
+/** Dated lines that are about the calendar, not work */
+const NOT_A_DELIVERABLE =
+  /\b(no class|no classes|holiday|spring break|fall break|thanksgiving|recess|classes (?:begin|end)|last day to (?:add|drop|withdraw)|office hours)\b/i;
+
+const MAX_TITLE_LENGTH = 120;
+
+/**
+ * Extract the deliverables from one course's syllabus.
+ * Dates without a year get the year that puts them closest to `now`, dates
+ * without a time default to 11:59 PM local, and anything already past is
+ * skipped. Ids are stable ("syllabus_<courseId>_<hash>"), so rescanning an
+ * unchanged syllabus finds the same items.
+ */
+export function extractSyllabusItems(source: SyllabusSource, now: Date = new Date()): SyllabusItem[] {
+  const items = new Map<string, SyllabusItem>();
+
+  for (const line of htmlToLines(source.syllabusBody)) {
+    if (!DELIVERABLE.test(line) || NOT_A_DELIVERABLE.test(line)) continue;
+
+    const found = findDateMentions(line, now);
+    if (found.length === 0) continue;
+
+    // A range ("Sep 15 - Sep 19") is due at its end
+    const { date } = found[found.length - 1];
+    applyTimeOfDay(date, line);
+    if (date < now) continue;
+
+    const title = buildTitle(line, found.map(f => f.matched));
+    const id = `syllabus_${source.courseId}_${hashString(`${title.toLowerCase()}|${toDateKey(date)}`)}`;
+
+    items.set(id, {
+      assignmentID: id,
+      title,
+      type: guessType(line),
+      courseName: source.courseName,
+      courseNickname: source.courseNickname ?? undefined,
+      courseColor: source.courseColor ?? undefined,
+      courseId: source.courseId,
+      dueDate: date.toISOString(),
+      htmlUrl: source.htmlUrl,
+      excerpt: line.length > 200 ? `${line.slice(0, 200)}...` : line,
+    });
+  }
+
+  return Array.from(items.values());
+}
+
+/**
+ * Accepted tasks that fall inside the refresh window
+ */
+export function getTasksInWindow(tasks: AssignmentInput[], daysAhead: number, now: Date = new Date()): AssignmentInput[] {
+  const cutoff = new Date(now);
+  cutoff.setDate(now.getDate() + daysAhead);
+  cutoff.setHours(23, 59, 59, 999);
+
+  return tasks.filter(task => {
+    const due = new Date(task.dueDate);
+    return due >= now && due <= cutoff;
+  });
+}
+
+/**
+ * Split syllabus HTML into one line per paragraph, list item, heading or
+ * table row, with cells joined by " | ". Long lines with several
+ * semicolon-separated entries are split as well.
+ */
+function htmlToLines(html: string): string[] {
+  const text = (html || '')
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<br\s*\/?>|<\/(p|li|tr|h[1-6]|div)>/gi, '\n')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&rsquo;|&lsquo;/g, "'")
+    .replace(/&ndash;|&mdash;/g, '-');
+
+  return text
+    .split(/\n|;\s+/)
+    .map(line => line.replace(/\s+/g, ' ').replace(/(\s*\|\s*)+$/, '').trim())
+    .filter(line => line.length > 0);
+}
+
+/**
+ * The line without its dates, weekdays, times and "due" filler
+ */
+function buildTitle(line: string, dateTexts: string[]): string {
+  let title = line;
+  for (const text of dateTexts) {
+    title = title.replace(text, ' ');
+  }
+
+  title = title
+    .replace(new RegExp(TIME_OF_DAY.source, 'gi'), ' ')
+    .replace(WEEKDAY, ' ')
+    .replace(/\b(?:is |are )?due(?: (?:on|by|date))?\b:?/gi, ' ')
+    .replace(/\bweek \d+\b/gi, ' ')
+    .replace(/\(\s*\)/g, ' ')
+    .replace(/\s*\|\s*(\|\s*)*/g, ' | ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s|:,.\-–—]+|[\s|:,.\-–—]+$/g, '')
+    .trim();
+
+  if (!title) return 'Syllabus deadline';
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH)}...` : title;
+}
+
+/**
+ * Best-guess item type from the wording of the line
+ */
+function guessType(line: string): AssignmentType {
+  if (/\b(exams?|midterms?|final exam|tests?)\b/i.test(line)) return 'exam';
+  if (/\bquiz(?:zes)?\b/i.test(line)) return 'quiz';
+  if (/\b(essays?|papers?)\b/i.test(line)) return 'essay';
+  if (/\b(projects?|presentations?|portfolios?)\b/i.test(line)) return 'project';
+  if (/\b(discussions?|forum posts?)\b/i.test(line)) return 'discussion';
+  return 'assignment';
+}
+
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+/**
+ * Short stable hash (djb2, base 36) for item ids
+ */
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { diffAssignments, hasChanges } from './sync-engine';
+import type { AssignmentInput } from '../types';
+
+const syncedAt = new Date('2026-09-10T12:00:00Z').getTime();
+
+function item(assignmentID: string, fields: Partial<AssignmentInput> = {}): AssignmentInput {
+  return {
+    assignmentID,
+    title: `Item ${assignmentID}`,
+    courseName: 'BIO 110',
+    dueDate: '2026-09-20T23:59:00Z',
+    description: '',
+    ...fields,
+  } as AssignmentInput;
+}
+
+describe('diffAssignments', () => {
+  it('reports nothing on the first sync', () => {
+    const changeSet = diffAssignments(undefined, [item('a')], syncedAt);
+    expect(hasChanges(changeSet)).toBe(false);
+    expect(changeSet.syncedAt).toBe(syncedAt);
+  });
+
+  it('reports new work, due-date moves and description edits', () => {
+    const previous = [item('a'), item('b', { description: '<p>Read ch. 1</p>' })];
+    const fetched = [
+      item('a', { dueDate: '2026-09-22T23:59:00Z' }),
+      item('b', { description: '<p>Read ch. 1-2</p>' }),
+      item('c'),
+    ];
+
+    expect(diffAssignments(previous, fetched, syncedAt)).toEqual({
+      syncedAt,
+      added: ['c'],
+      removed: [],
+      dueDateMoved: [{ assignmentID: 'a', previousDueDate: '2026-09-20T23:59:00Z', dueDate: '2026-09-22T23:59:00Z' }],
+      descriptionEdited: ['b'],
+    });
+  });
+
+  it('does not report finished or dismissed work as new', () => {
+    const submission = { submitted: true, graded: false, missing: false, late: false, excused: false };
+    const fetched = [item('done', { submission }), item('hidden', { dismissed: true }), item('planner', { markedComplete: true })];
+
+    expect(hasChanges(diffAssignments([], fetched, syncedAt))).toBe(false);
+  });
+
+  it('reports removals, but not items whose deadline passed', () => {
+    const previous = [item('deleted'), item('past', { dueDate: '2026-09-09T23:59:00Z' }), item('undated', { dueDate: undefined })];
+
+    expect(diffAssignments(previous, [], syncedAt).removed).toEqual([
+      { assignmentID: 'deleted', title: 'Item deleted', courseName: 'BIO 110' },
+      { assignmentID: 'undated', title: 'Item undated', courseName: 'BIO 110' },
+    ]);
+  });
+
+  it('treats a missing due date and an empty one as the same', () => {
+    const changeSet = diffAssignments([item('a', { dueDate: '' })], [item('a', { dueDate: undefined })], syncedAt);
+    expect(hasChanges(changeSet)).toBe(false);
+  });
+});
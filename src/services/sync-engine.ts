@@ -0,0 +1,89 @@
+/**
+ * Sync Engine
+ * Diffs each Canvas fetch against the cached assignments so a refresh knows
+ * what actually changed: new work, due-date moves, description edits, and
+ * removals. The resulting change set is stored in chrome.storage.local as
+ * `lastChangeSet` for notifications, the sidebar, and analytics.
+ */
+
+import { isAssignmentComplete } from '../utils/assignment-status';
+import { getDeadline } from '../utils/assignment-dates';
+import type { AssignmentChangeSet, AssignmentInput } from '../types';
+
+export const CHANGE_SET_KEY = 'lastChangeSet';
+
+/**
+ * Compare the previous cache with a fresh fetch.
+ *
+ * `fetched` is everything Canvas returned, before dismissed / completed items
+ * are filtered out, so hiding finished work doesn't look like a removal.
+ * Items that are already done or dismissed are not reported as new, and items
+ * that simply aged out of the lookahead window are not reported as removed.
+ * With no previous cache (first sync) nothing is reported at all.
+ */
+export function diffAssignments(
+  previous: AssignmentInput[] | undefined,
+  fetched: AssignmentInput[],
+  syncedAt: number = Date.now(),
+): AssignmentChangeSet {
+  const changeSet: AssignmentChangeSet = {
+    syncedAt,
+    added: [],
+    removed: [],
+    dueDateMoved: [],
+    descriptionEdited: [],
+  };
+
+  if (!previous) return changeSet;
+
+  const previousMap = new Map(previous.map(a => [a.assignmentID, a]));
+  const fetchedIds = new Set(fetched.map(a => a.assignmentID));
+
+  for (const item of fetched) {
+    const before = previousMap.get(item.assignmentID);
+
+    if (!before) {
+      if (!item.dismissed && !isAssignmentComplete(item)) {
+        changeSet.added.push(item.assignmentID);
+      }
+      continue;
+    }
+
+    if ((before.dueDate || '') !== (item.dueDate || '')) {
+      changeSet.dueDateMoved.push({
+        assignmentID: item.assignmentID,
+        previousDueDate: before.dueDate || null,
+        dueDate: item.dueDate || null,
+      });
+    }
+
+    if ((before.description || '') !== (item.description || '')) {
+      changeSet.descriptionEdited.push(item.assignmentID);
+    }
+  }
+
+  for (const before of previous) {
+    if (fetchedIds.has(before.assignmentID)) continue;
+
+    const deadline = getDeadline(before);
+    if (deadline && deadline.getTime() < syncedAt) continue;
+
+    changeSet.removed.push({
+      assignmentID: before.assignmentID,
+      title: before.title,
+      courseName: before.courseName,
+    });
+  }
+
+  return changeSet;
+}
+
+/**
+ * Whether a change set has anything worth telling the student about
+ */
+export function hasChanges(changeSet: AssignmentChangeSet): boolean {
+  return changeSet.added.length > 0 ||
+    changeSet.removed.length > 0 ||
+    changeSet.dueDateMoved.length > 0 ||
+    changeSet.descriptionEdited.length > 0;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { TimeEstimator } from './time-estimator';
+import type { AssignmentInput } from '../types';
+
+const assignment = {
+  assignmentID: '1:42',
+  title: 'Lab report 2',
+  courseName: 'CHEM 101',
+  type: 'assignment',
+  dueDate: '2026-10-20T23:59:00Z',
+} as AssignmentInput;
+
+describe('TimeEstimator.toEstimateResult', () => {
+  const estimator = new TimeEstimator();
+
+  it('treats an answer without a confidence as low confidence', () => {
+    expect(estimator.toEstimateResult(assignment, { minutes: 60 })).toMatchObject({
+      minutes: 60,
+      confidence: 'low',
+      range: { low: 30, high: 120 },
+    });
+  });
+
+  it('uses the range the model gave over its confidence', () => {
+    const result = estimator.toEstimateResult(assignment, { minutes: 60, lowMinutes: 45, highMinutes: 90, confidence: 'high' });
+    expect(result).toMatchObject({ confidence: 'high', range: { low: 45, high: 90 } });
+  });
+});
@@ -4,28 +4,116 @@
  */
 
 import { withRetry } from '../utils/rate-limiter';
-import type { AssignmentInput, AIEstimateResult } from '../types';
+import {
+  createProvider,
+  getProviderSettingKeys,
+  type EstimationProvider,
+  type RawAIResponse,
+  type RawBatchEntry,
+} from './estimation-providers';
+import { licensingService } from './licensing';
+import { estimateCache } from './estimate-cache';
+import { parseDiscussionRequirements } from '../utils/discussion-requirements';
+import { countWords, getReadingMinutes, READING_WORDS_PER_MINUTE } from '../utils/reading-length';
+import type { AssignmentInput, AssignmentType, AIEstimateResult, EstimateConfidence, QuizDetails, RubricCriterion } from '../types';
+import type { SyllabusItem } from './syllabus-parser';
+
+/** Extra heuristic minutes per (effective) rubric criterion. */
+const RUBRIC_MINUTES_PER_CRITERION = 10;
+
+/** Criteria listed individually in the prompt before summarizing the rest. */
+const MAX_PROMPT_CRITERIA = 8;
+
+/** Minutes per question when a quiz has no time limit. */
+const MINUTES_PER_QUIZ_QUESTION = 1.5;
+
+/** Study time per question, and its floor / cap, for quizzes and exams. */
+const QUIZ_PREP_RULES: Record<'quiz' | 'exam', { perQuestion: number; fallback: number; min: number; max: number }> = {
+  quiz: { perQuestion: 2, fallback: 20, min: 15, max: 120 },
+  exam: { perQuestion: 5, fallback: 90, min: 60, max: 360 },
+};
+
+/** Drafting pace for discussion posts, thinking time included. */
+const DISCUSSION_WORDS_PER_MINUTE = 15;
+
+/** Post / reply length assumed when the prompt doesn't give one. */
+const DEFAULT_POST_WORDS = 250;
+const DEFAULT_REPLY_WORDS = 100;
+
+/** Entry length assumed when Canvas hides entries until the student posts. */
+const AVERAGE_ENTRY_WORDS = 150;
+
+/** Nobody reads a huge thread end to end; reading is capped at this many words. */
+const MAX_DISCUSSION_READING_WORDS = 6000;
+
+/** Assignments per batch prompt when the student hasn't chosen, and the most allowed. */
+const DEFAULT_BATCH_SIZE = 5;
+const MAX_BATCH_SIZE = 20;
+
+const ESTIMATION_FACTORS = `Consider factors like:
+- Type of assignment (quiz, essay, project, discussion, etc.) — the Canvas type is authoritative, do not reclassify it from the title
+- Complexity indicated by points
+- Submission type requirements
+- Rubric criteria: each one is a separate expectation, and heavily weighted criteria need the most effort
+- Reading length, when given: budget careful reading time for the measured words or pages
+- Quiz settings, when given: the time limit and question count set how long taking it takes
+- Discussion requirements, when given: the number and length of posts and replies, plus the thread to read
+- Subject matter complexity
+
+Confidence is high when the details pin the work down (clear requirements, measured length, quiz settings) and low when you are mostly guessing from the title.
+"lowMinutes" and "highMinutes" are the optimistic and pessimistic ends of "minutes": close together when confidence is high, far apart when it is low.`;
 
-/** Raw response from an AI endpoint before we attach the assignmentID. */
-interface RawAIResponse {
-  minutes: number;
-  reasoning?: string;
+const REALISM_NOTE = 'Be realistic - most assignments take between 30 minutes and 4 hours. Only estimate longer for major projects or papers.';
+
+/**
+ * Bump when the prompts or the way answers are read change, so cached
+ * estimates are redone with the new ones.
+ */
+const PROMPT_VERSION = 2;
+
+/** Optimistic / pessimistic multipliers of an estimate. */
+interface Spread {
+  low: number;
+  high: number;
 }
 
+/** Range for a model answer with no usable low / high, by its confidence (low when it gave none). */
+const CONFIDENCE_SPREAD: Record<EstimateConfidence, Spread> = {
+  high: { low: 0.85, high: 1.25 },
+  medium: { low: 0.7, high: 1.5 },
+  low: { low: 0.5, high: 2 },
+};
+
+/**
+ * How far each heuristic rule can be off. Rules fed by measurements (word
+ * counts, question counts) are tighter than guesses from type and points, and
+ * a time limit caps the pessimistic end.
+ */
+const HEURISTIC_SPREAD: Record<'guess' | 'measured' | 'timeLimit', Spread> = {
+  guess: { low: 0.5, high: 2 },
+  measured: { low: 0.75, high: 1.5 },
+  timeLimit: { low: 0.5, high: 1 },
+};
+
+/** A heuristic range at most this many times wider than its low end is medium confidence. */
+const MEDIUM_CONFIDENCE_MAX_RATIO = 2;
+
+/** An estimate before its confidence and range are attached. */
+type PointEstimate = Omit<AIEstimateResult, 'confidence' | 'range'>;
+
+/** Syllabus candidates reviewed by the local LLM per prompt. */
+const SYLLABUS_REFINE_BATCH = 25;
+
+const SYLLABUS_TYPES: AssignmentType[] = ['assignment', 'quiz', 'discussion', 'essay', 'project', 'exam'];
+
 export class TimeEstimator {
-  private aiProvider: string | null;
-  private apiKey: string | null;
-  private model: string;
-  private localLlmUrl: string;
-  private localLlmModel: string;
+  private provider: EstimationProvider | null;
+  private batchSize: number;
   private defaultEstimates: Record<string, { base: number; perPoint: number }>;
 
   constructor() {
-    this.aiProvider = null;
-    this.apiKey = null;
-    this.model = 'gpt-3.5-turbo';
-    this.localLlmUrl = 'http://localhost:11434';
-    this.localLlmModel = 'qwen2.5-coder:1.5b';
+    this.provider = null;
+    this.batchSize = DEFAULT_BATCH_SIZE;
 
     // Default estimation rules (fallback when AI is unavailable)
     this.defaultEstimates = {
@@ -36,72 +124,159 @@ export class TimeEstimator {
       project: { base: 180, perPoint: 8 },
       exam: { base: 90, perPoint: 2 },
       reading: { base: 30, perPoint: 1 },
+      announcement: { base: 15, perPoint: 0 },
+      event: { base: 30, perPoint: 0 },
+      note: { base: 30, perPoint: 0 },
       default: { base: 60, perPoint: 2 }
     };
   }
 
   /**
-   * Configure the AI provider
+   * Configure the AI provider. The provider instance is kept while the
+   * selection doesn't change, so what it learned about its server survives
+   * between estimates.
    */
   async configure(): Promise<void> {
-    const settings = await chrome.storage.sync.get([
-      'aiProvider',
-      'openaiApiKey',
-      'localLlmUrl',
-      'localLlmModel',
-      'estimationModel'
-    ]);
-
-    this.aiProvider = settings.aiProvider || 'none';
-    this.model = settings.estimationModel || 'gpt-3.5-turbo';
-
-    if (this.aiProvider === 'openai') {
-      this.apiKey = settings.openaiApiKey;
-    } else if (this.aiProvider === 'local') {
-      this.localLlmUrl = settings.localLlmUrl || 'http://localhost:11434';
-      this.localLlmModel = settings.localLlmModel || 'qwen2.5-coder:1.5b';
+    const settings = await chrome.storage.sync.get(['aiProvider', 'estimationBatchSize', ...getProviderSettingKeys()]);
+    const providerId = settings.aiProvider || 'none';
+    this.batchSize = Math.min(Math.max(Math.round(settings.estimationBatchSize ?? DEFAULT_BATCH_SIZE), 1), MAX_BATCH_SIZE);
+
+    if (this.provider?.descriptor.id !== providerId) {
+      this.provider = createProvider(providerId);
+    }
+    if (this.provider) {
+      const tier = await licensingService.getCachedTier();
+      this.provider.configure(settings, tier.tier);
     }
   }
 
   /**
    * Estimate time for all assignments.
-   * Returns one AIEstimateResult per input, keyed by assignmentID.
+   * Returns one AIEstimateResult per input, in order, scaled by each course's
+   * workload multiplier. Assignments the current model has already estimated
+   * come from the estimate cache; the rest go to the provider, in groups of
+   * the batch size when it batches, or one at a time. With `useAI` off (free
+   * tier exhausted) cache misses get heuristics instead. `aiEstimated` counts
+   * the estimates the provider actually produced.
    */
-  async estimateAll(assignments: AssignmentInput[]): Promise<AIEstimateResult[]> {
+  async estimateAll(
+    assignments: AssignmentInput[],
+    { useAI = true }: { useAI?: boolean } = {},
+  ): Promise<{ results: AIEstimateResult[]; aiEstimated: number }> {
     await this.configure();
 
-    const results: AIEstimateResult[] = [];
+    const provider = this.provider?.isConfigured() ? this.provider : null;
+    if (!provider) {
+      return { results: assignments.map(a => this.applyWorkloadMultiplier(a, this.getHeuristicResult(a))), aiEstimated: 0 };
+    }
 
-    for (const assignment of assignments) {
-      const result = await this.estimateSingle(assignment);
-      results.push(result);
+    const model = `${provider.descriptor.id}:${provider.modelIdentity()}`;
+    const keys = await Promise.all(assignments.map(a => estimateCache.getKey(a, model, PROMPT_VERSION)));
+    const cached = await estimateCache.lookup(keys);
+
+    const misses = assignments.filter((_, i) => !cached.has(keys[i]));
+    const fresh = useAI ? await this.estimateWithProvider(provider, misses) : [];
+
+    const toCache = new Map<string, AIEstimateResult>();
+    const results = assignments.map((assignment, i) => {
+      const hit = cached.get(keys[i]);
+      if (hit) {
+        const { usedAt: _usedAt, ...estimate } = hit;
+        return this.applyWorkloadMultiplier(assignment, { ...estimate, assignmentID: assignment.assignmentID });
+      }
+
+      const estimate = fresh[misses.indexOf(assignment)];
+      if (estimate) {
+        toCache.set(keys[i], estimate);
+        return this.applyWorkloadMultiplier(assignment, estimate);
+      }
+      return this.applyWorkloadMultiplier(assignment, this.getHeuristicResult(assignment));
+    });
+
+    await estimateCache.store(toCache);
+    return { results, aiEstimated: toCache.size };
+  }
+
+  /**
+   * Ask the provider about each assignment. Entries are unscaled, and null
+   * where the provider couldn't produce an estimate.
+   */
+  private async estimateWithProvider(
+    provider: EstimationProvider,
+    assignments: AssignmentInput[],
+  ): Promise<Array<AIEstimateResult | null>> {
+    const results: Array<AIEstimateResult | null> = [];
+
+    if (provider.capabilities.batching && this.batchSize > 1) {
+      for (let start = 0; start < assignments.length; start += this.batchSize) {
+        results.push(...await this.estimateBatch(provider, assignments.slice(start, start + this.batchSize)));
+      }
+      return results;
     }
 
+    for (const assignment of assignments) {
+      results.push(await this.tryAIEstimate(assignment));
+    }
     return results;
   }
 
   /**
-   * Estimate time for a single assignment.
-   * Returns an AIEstimateResult with the assignmentID linked.
+   * Estimate a group of assignments with one prompt. Assignments the answer
+   * doesn't cover (missing id, unusable minutes), or the whole group if the
+   * request fails, are asked about one by one.
    */
-  async estimateSingle(assignment: AssignmentInput): Promise<AIEstimateResult> {
-    await this.configure();
-
-    const useAI =
-      this.aiProvider === 'local' ||
-      (this.apiKey && this.aiProvider === 'openai');
+  private async estimateBatch(provider: EstimationProvider, batch: AssignmentInput[]): Promise<Array<AIEstimateResult | null>> {
+    if (batch.length === 1) {
+      return [await this.tryAIEstimate(batch[0])];
+    }
 
-    if (useAI) {
-      try {
-        return await this.getAIEstimate(assignment);
-      } catch (error) {
-        console.warn('[TimeEstimator] AI estimation failed, using heuristics:', error);
+    const entries = new Map<string, RawBatchEntry>();
+    try {
+      const answer = await withRetry(() => provider.estimateBatch(this.buildBatchPrompt(batch)), 2, 1000);
+      for (const entry of answer) {
+        if (!entries.has(entry.assignmentID)) entries.set(entry.assignmentID, entry);
       }
+    } catch (error) {
+      console.warn('[TimeEstimator] Batch estimation failed, estimating one by one:', error);
     }
 
+    const missing = batch.filter(a => !entries.has(String(a.assignmentID))).length;
+    if (missing > 0 && entries.size > 0) {
+      console.warn(`[TimeEstimator] Batch answer missed ${missing} of ${batch.length} assignments, estimating them one by one`);
+    }
+
+    const results: Array<AIEstimateResult | null> = [];
+    for (const assignment of batch) {
+      const entry = entries.get(String(assignment.assignmentID));
+      results.push(entry ? this.toEstimateResult(assignment, entry) : await this.tryAIEstimate(assignment));
+    }
+    return results;
+  }
+
+  /**
+   * AI estimate for one assignment, or null (logged) when it fails
+   */
+  private async tryAIEstimate(assignment: AssignmentInput): Promise<AIEstimateResult | null> {
+    try {
+      return await this.getAIEstimate(assignment);
+    } catch (error) {
+      console.warn('[TimeEstimator] AI estimation failed, using heuristics:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Scale an estimate by the student's per-course workload multiplier
+   * (e.g. 1.5x for a course they find harder than average)
+   */
+  applyWorkloadMultiplier(assignment: AssignmentInput, result: AIEstimateResult): AIEstimateResult {
+    const multiplier = assignment.workloadMultiplier ?? 1;
+    if (multiplier === 1) return result;
     return {
-      assignmentID: assignment.assignmentID,
-      minutes: this.getHeuristicEstimate(assignment),
+      ...result,
+      minutes: Math.round(result.minutes * multiplier),
+      breakdown: result.breakdown?.map(part => ({ ...part, minutes: Math.round(part.minutes * multiplier) })),
+      range: { low: Math.round(result.range.low * multiplier), high: Math.round(result.range.high * multiplier) },
     };
   }
 
@@ -109,113 +284,400 @@ export class TimeEstimator {
    * Get AI-powered time estimate and attach the assignmentID.
    */
   async getAIEstimate(assignment: AssignmentInput): Promise<AIEstimateResult> {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('No AI provider is configured');
+    }
     const prompt = this.buildPrompt(assignment);
 
-    return withRetry(async () => {
-      let raw: RawAIResponse;
+    return withRetry(async () => this.toEstimateResult(assignment, await provider.estimate(prompt)), 2, 1000);
+  }
 
-      if (this.aiProvider === 'openai') {
-        raw = await this.callOpenAI(prompt);
-      } else if (this.aiProvider === 'local') {
-        raw = await this.callOllama(prompt);
-      } else {
-        throw new Error(`Unknown AI provider: ${this.aiProvider}`);
-      }
+  /**
+   * Turn a model's answer into an estimate, grounding quizzes and
+   * discussions in what Canvas knows about them
+   */
+  toEstimateResult(assignment: AssignmentInput, raw: RawAIResponse): AIEstimateResult {
+    let estimate: PointEstimate;
+    if (assignment.quiz) {
+      estimate = this.groundQuizEstimate(assignment, assignment.quiz, raw);
+    } else if (this.categorizeAssignment(assignment) === 'discussion') {
+      estimate = this.groundDiscussionEstimate(assignment, raw);
+    } else {
+      estimate = { assignmentID: assignment.assignmentID, minutes: raw.minutes, reasoning: raw.reasoning };
+    }
 
-      return { assignmentID: assignment.assignmentID, ...raw };
-    }, 2, 1000);
+    const confidence = raw.confidence ?? 'low';
+    const spread = this.getAnswerSpread(raw) ?? CONFIDENCE_SPREAD[confidence];
+    return {
+      ...estimate,
+      confidence,
+      range: { low: Math.round(estimate.minutes * spread.low), high: Math.round(estimate.minutes * spread.high) },
+    };
+  }
+
+  /**
+   * The model's low / high as multipliers of its "minutes", so they carry
+   * over to a grounded total (a quiz's answer is taking time, the total
+   * adds prep). Null when the model gave no usable range.
+   */
+  getAnswerSpread(raw: RawAIResponse): Spread | null {
+    if (typeof raw.lowMinutes !== 'number' || typeof raw.highMinutes !== 'number') return null;
+    if (raw.lowMinutes > raw.highMinutes) return null;
+
+    return {
+      low: Math.min(raw.lowMinutes, raw.minutes) / raw.minutes,
+      high: Math.max(raw.highMinutes, raw.minutes) / raw.minutes,
+    };
   }
 
   /**
    * Build prompt for AI estimation
    */
   buildPrompt(assignment: AssignmentInput): string {
-    const details = [
+    const isDiscussion = this.isDiscussionPrompt(assignment);
+    const details = this.describeAssignment(assignment);
+
+    const responseFormat = isDiscussion
+      ? `For this discussion, give the time to read the prompt and enough of the existing thread to respond and, separately, the time to write the required posts and replies.
+
+Respond with ONLY a JSON object in this exact format:
+{"minutes": <total minutes>, "lowMinutes": <optimistic total>, "highMinutes": <pessimistic total>, "readingMinutes": <minutes reading>, "writingMinutes": <minutes writing>, "reasoning": "<brief explanation>", "confidence": "low" | "medium" | "high"}`
+      : assignment.quiz
+      ? `For this quiz, give the time to take it and, separately, the time an average student would spend studying for it beforehand. Taking it cannot exceed the time limit.
+
+Respond with ONLY a JSON object in this exact format:
+{"minutes": <minutes to take the quiz>, "lowMinutes": <optimistic minutes to take it>, "highMinutes": <pessimistic minutes to take it>, "prepMinutes": <minutes of study beforehand>, "reasoning": "<brief explanation>", "confidence": "low" | "medium" | "high"}`
+      : `Respond with ONLY a JSON object in this exact format:
+{"minutes": <number>, "lowMinutes": <number>, "highMinutes": <number>, "reasoning": "<brief explanation>", "confidence": "low" | "medium" | "high"}`;
+
+    return `You are an academic workload estimator. Based on the following assignment details, estimate how many minutes it would take an average student to complete this assignment.
+
+Assignment Details:
+${details}
+
+${ESTIMATION_FACTORS}
+
+${responseFormat}
+
+${REALISM_NOTE}`;
+  }
+
+  /**
+   * Build one prompt covering a group of assignments, answered as a JSON
+   * array keyed by assignmentID
+   */
+  buildBatchPrompt(assignments: AssignmentInput[]): string {
+    const blocks = assignments.map(assignment =>
+      `Assignment ID: ${assignment.assignmentID}\n${this.describeAssignment(assignment)}`
+    ).join('\n\n---\n\n');
+
+    return `You are an academic workload estimator. For each assignment below, estimate how many minutes it would take an average student to complete it.
+
+${blocks}
+
+${ESTIMATION_FACTORS}
+
+For quizzes, "minutes" is the time to take the quiz and "prepMinutes" the time an average student spends studying for it beforehand; taking it cannot exceed the time limit. For discussions, "readingMinutes" is reading the prompt and enough of the existing thread to respond and "writingMinutes" is writing the required posts and replies, with "minutes" their total. Use null for parts that don't apply.
+
+Respond with ONLY a JSON array containing one object per assignment, using the exact Assignment ID given, in this format:
+[{"assignmentID": "<id>", "minutes": <number>, "lowMinutes": <number>, "highMinutes": <number>, "prepMinutes": <number or null>, "readingMinutes": <number or null>, "writingMinutes": <number or null>, "reasoning": "<brief explanation>", "confidence": "low" | "medium" | "high"}]
+
+${REALISM_NOTE}`;
+  }
+
+  /**
+   * The details block of a prompt: everything known about one assignment
+   */
+  describeAssignment(assignment: AssignmentInput): string {
+    return [
       `Title: ${assignment.title}`,
-      `Type: ${assignment.type}`,
+      `Canvas type: ${assignment.type}`,
       `Course: ${assignment.courseName}`,
       typeof assignment.pointsPossible === 'number' ? `Points: ${assignment.pointsPossible}` : null,
       assignment.submissionTypes?.length ? `Submission types: ${assignment.submissionTypes.join(', ')}` : null,
-      assignment.description ? `Description snippet: ${this.truncate(this.stripHtml(assignment.description), 500)}` : null
+      assignment.description ? `Description snippet: ${this.truncate(this.stripHtml(assignment.description), 500)}` : null,
+      assignment.rubric?.length ? this.describeRubric(assignment.rubric) : null,
+      this.describeReadingLength(assignment),
+      assignment.quiz ? this.describeQuiz(assignment.quiz) : null,
+      this.isDiscussionPrompt(assignment) ? this.describeDiscussion(assignment) : null
     ].filter(Boolean).join('\n');
+  }
 
-    return `You are an academic workload estimator. Based on the following assignment details, estimate how many minutes it would take an average student to complete this assignment.
+  /**
+   * Discussions are asked for a reading / writing split; quizzes take precedence
+   */
+  isDiscussionPrompt(assignment: AssignmentInput): boolean {
+    return !assignment.quiz && this.categorizeAssignment(assignment) === 'discussion';
+  }
 
-Assignment Details:
-${details}
+  /**
+   * Let the local LLM review rule-based syllabus extractions: drop lines that
+   * aren't really deliverables, tidy titles, and fix the type. Dates are
+   * never changed. Only runs when the provider's host is local or on a
+   * private network (syllabus text stays with the student); otherwise, or if
+   * the model's answer can't be used, the items come back unchanged.
+   */
+  async refineSyllabusItems(items: SyllabusItem[]): Promise<{ items: SyllabusItem[]; refined: boolean }> {
+    await this.configure();
+    const provider = this.provider;
+    if (!provider?.isConfigured() || !provider.isLocal() || items.length === 0) {
+      return { items, refined: false };
+    }
 
-Consider factors like:
-- Type of assignment (quiz, essay, project, discussion, etc.)
-- Complexity indicated by points
-- Submission type requirements
-- Subject matter complexity
+    try {
+      const refinedItems: SyllabusItem[] = [];
+      for (let start = 0; start < items.length; start += SYLLABUS_REFINE_BATCH) {
+        const batch = items.slice(start, start + SYLLABUS_REFINE_BATCH);
+        const content = await withRetry(() => provider.generate(this.buildSyllabusPrompt(batch)), 2, 1000);
+        refinedItems.push(...this.applySyllabusReview(batch, content));
+      }
+      return { items: refinedItems, refined: true };
+    } catch (error) {
+      console.warn('[TimeEstimator] Syllabus refinement failed, keeping rule-based items:', error);
+      return { items, refined: false };
+    }
+  }
 
-Respond with ONLY a JSON object in this exact format:
-{"minutes": <number>, "reasoning": "<brief explanation>"}
+  /**
+   * Build the review prompt for a batch of syllabus candidates
+   */
+  buildSyllabusPrompt(items: SyllabusItem[]): string {
+    const lines = items.map((item, index) =>
+      `${index}. [${item.courseName}] title="${item.title}" type=${item.type} line="${item.excerpt}"`
+    ).join('\n');
+
+    return `You are reviewing deadlines pulled from course syllabi. Each numbered entry is a syllabus line that mentions a date, with the title and type guessed from it.
+
+Entries:
+${lines}
 
-Be realistic - most assignments take between 30 minutes and 4 hours. Only estimate longer for major projects or papers.`;
+For each entry decide:
+- keep: true if the line is graded work the student must complete or sit (assignment, paper, exam, quiz, project, presentation), false for lecture topics, readings without a deliverable, holidays and administrative dates
+- title: a short name for the deliverable, taken from the line (e.g. "Essay 1", "Midterm Exam")
+- type: one of ${SYLLABUS_TYPES.join(', ')}
+
+Respond with ONLY a JSON array, one object per entry, in this exact format:
+[{"index": 0, "keep": true, "title": "<title>", "type": "<type>"}]`;
   }
 
   /**
-   * OpenAI API — not yet implemented.
-   *
-   * This intentionally throws so that the try/catch in estimateSingle() catches it
-   * and falls back to getHeuristicEstimate(). The fallback path is:
-   *   estimateSingle() → getAIEstimate() → callOpenAI() throws
-   *     └→ caught by estimateSingle()'s catch block → getHeuristicEstimate() is used instead
-   *
-   * TODO: implement by POSTing `prompt` to https://api.openai.com/v1/chat/completions
-   *       with the user-supplied `this.apiKey` (already read from chrome.storage.sync).
-   *       The key is NEVER hardcoded here — it is always user-supplied BYOK.
+   * Apply the model's verdicts to a batch. Entries the model skipped or
+   * answered with something unusable are kept as extracted.
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  async callOpenAI(_prompt: string): Promise<RawAIResponse> {
-    throw new Error('OpenAI integration coming soon. Falling back to heuristics.');
+  applySyllabusReview(items: SyllabusItem[], content: string): SyllabusItem[] {
+    const jsonMatch = content.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) throw new Error('No JSON array in syllabus review');
+
+    const verdicts: unknown = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(verdicts)) throw new Error('Syllabus review is not an array');
+
+    const byIndex = new Map<number, { keep?: unknown; title?: unknown; type?: unknown }>();
+    for (const verdict of verdicts) {
+      if (verdict && typeof verdict.index === 'number') byIndex.set(verdict.index, verdict);
+    }
+
+    return items.flatMap((item, index) => {
+      const verdict = byIndex.get(index);
+      if (!verdict) return [item];
+      if (verdict.keep === false) return [];
+
+      const title = typeof verdict.title === 'string' && verdict.title.trim() ? verdict.title.trim() : item.title;
+      const type = SYLLABUS_TYPES.includes(verdict.type as AssignmentType) ? verdict.type as AssignmentType : item.type;
+      return [{ ...item, title, type }];
+    });
   }
 
   /**
-   * Call Ollama API (local LLM)
+   * Combine the model's quiz answer with what Canvas knows: taking time is
+   * capped by the time limit, and missing prep time falls back to the
+   * heuristic. The result is the total with a take / prep breakdown.
    */
-  async callOllama(prompt: string): Promise<RawAIResponse> {
-    const url = `${this.localLlmUrl}/api/generate`;
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: this.localLlmModel,
-        prompt: prompt,
-        stream: false,
-        options: {
-          temperature: 0.3,
-        }
-      })
-    });
+  groundQuizEstimate(assignment: AssignmentInput, quiz: QuizDetails, raw: RawAIResponse): PointEstimate {
+    const heuristic = this.getQuizParts(assignment, quiz);
+    const take = quiz.timeLimitMinutes ? Math.min(raw.minutes, quiz.timeLimitMinutes) : raw.minutes;
+    const prep = typeof raw.prepMinutes === 'number' && raw.prepMinutes >= 0 ? raw.prepMinutes : heuristic.prepMinutes;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Ollama API error: ${response.status} - ${errorText}`);
+    return {
+      assignmentID: assignment.assignmentID,
+      minutes: Math.round(take + prep),
+      reasoning: raw.reasoning,
+      breakdown: [
+        { label: 'Taking the quiz', minutes: Math.round(take) },
+        { label: 'Study prep', minutes: Math.round(prep) },
+      ],
+    };
+  }
+
+  /**
+   * Combine the model's discussion answer with the heuristic: when the model
+   * doesn't split its total, it is divided in the heuristic's reading /
+   * writing proportions.
+   */
+  groundDiscussionEstimate(assignment: AssignmentInput, raw: RawAIResponse): PointEstimate {
+    const isPart = (value: unknown): value is number => typeof value === 'number' && value >= 0;
+
+    let reading: number;
+    let writing: number;
+    if (isPart(raw.readingMinutes) && isPart(raw.writingMinutes)) {
+      reading = raw.readingMinutes;
+      writing = raw.writingMinutes;
+    } else {
+      const heuristic = this.getDiscussionParts(assignment);
+      const share = heuristic.readingMinutes / (heuristic.readingMinutes + heuristic.writingMinutes);
+      reading = raw.minutes * share;
+      writing = raw.minutes - reading;
     }
 
-    const data = await response.json();
-    const content = data.response;
+    return {
+      assignmentID: assignment.assignmentID,
+      minutes: Math.round(reading + writing),
+      reasoning: raw.reasoning,
+      breakdown: [
+        { label: 'Reading the thread', minutes: Math.round(reading) },
+        { label: 'Writing posts', minutes: Math.round(writing) },
+      ],
+    };
+  }
 
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*"minutes"[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      throw new Error('No JSON found');
-    } catch {
-      const match = content.match(/(\d+)\s*minutes?/i);
-      if (match) {
-        return { minutes: parseInt(match[1]), reasoning: content };
-      }
-      console.warn('Could not parse Ollama response, using default estimate');
-      return { minutes: 60, reasoning: 'Could not parse LLM response' };
+  /**
+   * Heuristic estimate with its breakdown where there is one (quizzes with
+   * Canvas settings, discussions); everything else is a single number. The
+   * range adds up how far each rule that went into it can be off.
+   */
+  getHeuristicResult(assignment: AssignmentInput): AIEstimateResult {
+    if (assignment.quiz) {
+      const { takeMinutes, prepMinutes } = this.getQuizParts(assignment, assignment.quiz);
+      const takeSpread = assignment.quiz.timeLimitMinutes
+        ? HEURISTIC_SPREAD.timeLimit
+        : assignment.quiz.questionCount ? HEURISTIC_SPREAD.measured : HEURISTIC_SPREAD.guess;
+      return this.withHeuristicRange(
+        {
+          assignmentID: assignment.assignmentID,
+          minutes: takeMinutes + prepMinutes,
+          breakdown: [
+            { label: 'Taking the quiz', minutes: takeMinutes },
+            { label: 'Study prep', minutes: prepMinutes },
+          ],
+        },
+        [{ minutes: takeMinutes, spread: takeSpread }, { minutes: prepMinutes, spread: HEURISTIC_SPREAD.guess }],
+      );
+    }
+
+    if (this.categorizeAssignment(assignment) === 'discussion') {
+      const { readingMinutes, writingMinutes } = this.getDiscussionParts(assignment);
+      return this.withHeuristicRange(
+        {
+          assignmentID: assignment.assignmentID,
+          minutes: readingMinutes + writingMinutes,
+          breakdown: [
+            { label: 'Reading the thread', minutes: readingMinutes },
+            { label: 'Writing posts', minutes: writingMinutes },
+          ],
+        },
+        [
+          { minutes: readingMinutes, spread: assignment.discussion ? HEURISTIC_SPREAD.measured : HEURISTIC_SPREAD.guess },
+          { minutes: writingMinutes, spread: HEURISTIC_SPREAD.measured },
+        ],
+      );
     }
+
+    const minutes = this.getHeuristicEstimate(assignment);
+    const measured = this.categorizeAssignment(assignment) === 'reading' && getReadingMinutes(assignment) !== null;
+    return this.withHeuristicRange(
+      { assignmentID: assignment.assignmentID, minutes },
+      [{ minutes, spread: measured ? HEURISTIC_SPREAD.measured : HEURISTIC_SPREAD.guess }],
+    );
+  }
+
+  /**
+   * Attach the summed range of a heuristic's parts. A heuristic is never
+   * high confidence; it is medium when the range is reasonably narrow.
+   */
+  withHeuristicRange(estimate: PointEstimate, parts: Array<{ minutes: number; spread: Spread }>): AIEstimateResult {
+    const low = parts.reduce((sum, part) => sum + Math.round(part.minutes * part.spread.low), 0);
+    const high = parts.reduce((sum, part) => sum + Math.round(part.minutes * part.spread.high), 0);
+    return {
+      ...estimate,
+      confidence: high <= low * MEDIUM_CONFIDENCE_MAX_RATIO ? 'medium' : 'low',
+      range: { low, high },
+    };
+  }
+
+  /**
+   * Time to read a discussion (the prompt plus the entries already posted,
+   * capped for long threads) and to write the posts and replies its prompt
+   * asks for, at a drafting pace.
+   */
+  getDiscussionParts(assignment: AssignmentInput): { readingMinutes: number; writingMinutes: number } {
+    const requirements = parseDiscussionRequirements(assignment.description || '');
+    const discussion = assignment.discussion;
+
+    const entryWords = discussion ? discussion.entryWords ?? discussion.entryCount * AVERAGE_ENTRY_WORDS : 0;
+    const readingWords = countWords(assignment.description || '') + Math.min(entryWords, MAX_DISCUSSION_READING_WORDS);
+    const writingWords =
+      requirements.posts * (requirements.postWords ?? DEFAULT_POST_WORDS) +
+      requirements.replies * (requirements.replyWords ?? DEFAULT_REPLY_WORDS);
+
+    return {
+      readingMinutes: Math.max(5, Math.ceil(readingWords / READING_WORDS_PER_MINUTE)),
+      writingMinutes: Math.ceil(writingWords / DISCUSSION_WORDS_PER_MINUTE),
+    };
+  }
+
+  /**
+   * Discussion requirements and thread size for the prompt
+   */
+  describeDiscussion(assignment: AssignmentInput): string {
+    const requirements = parseDiscussionRequirements(assignment.description || '');
+    const length = (words: number | null) => words ? ` of ~${words} words` : '';
+    const lines = [
+      `Discussion requirements: ${requirements.posts} post${requirements.posts === 1 ? '' : 's'}${length(requirements.postWords)}, ` +
+        `${requirements.replies} repl${requirements.replies === 1 ? 'y' : 'ies'}${length(requirements.replyWords)}`,
+    ];
+
+    const discussion = assignment.discussion;
+    if (discussion) {
+      const words = discussion.entryWords !== null ? ` (${discussion.entryWords} words)` : ' (hidden until the student posts)';
+      lines.push(`Existing entries: ${discussion.entryCount}${discussion.entryCount > 0 ? words : ''}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Time to take a quiz (its time limit, else per question, else the type's
+   * base) and to study for it (per question within the quiz / exam bounds).
+   * Quizzes with unlimited or several attempts are low stakes, so prep is halved.
+   */
+  getQuizParts(assignment: AssignmentInput, quiz: QuizDetails): { takeMinutes: number; prepMinutes: number } {
+    const category = this.categorizeAssignment(assignment) === 'exam' ? 'exam' : 'quiz';
+    const rules = QUIZ_PREP_RULES[category];
+
+    const takeMinutes = quiz.timeLimitMinutes ??
+      (quiz.questionCount ? Math.ceil(quiz.questionCount * MINUTES_PER_QUIZ_QUESTION) : this.defaultEstimates[category].base);
+
+    let prepMinutes = quiz.questionCount ? quiz.questionCount * rules.perQuestion : rules.fallback;
+    prepMinutes = Math.min(Math.max(prepMinutes, rules.min), rules.max);
+    if (quiz.allowedAttempts === null || quiz.allowedAttempts > 2) {
+      prepMinutes = Math.round(prepMinutes / 2);
+    }
+
+    return { takeMinutes, prepMinutes };
+  }
+
+  /**
+   * Quiz settings for the prompt
+   */
+  describeQuiz(quiz: QuizDetails): string {
+    const parts = [
+      quiz.questionCount ? `${quiz.questionCount} questions` : null,
+      quiz.timeLimitMinutes ? `${quiz.timeLimitMinutes}-minute time limit` : 'no time limit',
+      quiz.allowedAttempts === null
+        ? 'unlimited attempts'
+        : `${quiz.allowedAttempts} attempt${quiz.allowedAttempts === 1 ? '' : 's'}`,
+    ].filter(Boolean);
+    return `Quiz settings: ${parts.join(', ')}`;
   }
 
   /**
@@ -225,6 +687,18 @@ Be realistic - most assignments take between 30 minutes and 4 hours. Only estima
     const type = this.categorizeAssignment(assignment);
     const rules = this.defaultEstimates[type] || this.defaultEstimates.default;
 
+    // Measured readings are timed by length alone
+    const readingMinutes = type === 'reading' ? getReadingMinutes(assignment) : null;
+    if (readingMinutes !== null) {
+      return Math.min(Math.max(readingMinutes, 5), 480);
+    }
+
+    // Discussions are reading the thread plus writing what the prompt asks for
+    if (type === 'discussion') {
+      const parts = this.getDiscussionParts(assignment);
+      return Math.min(Math.max(parts.readingMinutes + parts.writingMinutes, 15), 480);
+    }
+
     let minutes = rules.base;
 
     if (typeof assignment.pointsPossible === 'number') {
@@ -240,26 +714,89 @@ Be realistic - most assignments take between 30 minutes and 4 hours. Only estima
       }
     }
 
+    if (assignment.rubric?.length) {
+      minutes += this.getEffectiveCriterionCount(assignment.rubric) * RUBRIC_MINUTES_PER_CRITERION;
+    }
+
     return Math.min(Math.max(minutes, 15), 480);
   }
 
   /**
-   * Categorize assignment type
+   * Categorize assignment type.
+   * The Canvas-derived type wins; title keywords only refine generic
+   * assignments (essay / project / exam / reading) and quizzes that are exams.
    */
   categorizeAssignment(assignment: AssignmentInput): string {
     const title = (assignment.title || '').toLowerCase();
     const type = (assignment.type || '').toLowerCase();
+    const looksLikeExam = /\b(exam|test|midterm|final)\b/.test(title);
+
+    switch (type) {
+      case 'quiz':
+        return looksLikeExam ? 'exam' : 'quiz';
+      case 'discussion':
+      case 'essay':
+      case 'project':
+      case 'exam':
+      case 'announcement':
+      case 'event':
+      case 'note':
+        return type;
+      case 'page':
+        return 'reading';
+    }
 
-    if (type === 'quiz' || /[Qq]uiz/.test(title)) return 'quiz';
-    if (type === 'discussion' || /[Dd]iscussion/.test(title)) return 'discussion';
-    if (/[Ee]ssay/.test(title) || /[Pp]aper/.test(title)) return 'essay';
-    if (/[Pp]roject/.test(title) || /[Pp]resentation/.test(title)) return 'project';
-    if (/[Ee]xam/.test(title) || /[Tt]est/.test(title) || /[Mm]idterm/.test(title) || /[Ff]inal/.test(title)) return 'exam';
-    if (/[Rr]eading/.test(title) || /[Rr]ead/.test(title)) return 'reading';
+    if (/\b(essay|paper)\b/.test(title)) return 'essay';
+    if (/\b(project|presentation)\b/.test(title)) return 'project';
+    if (looksLikeExam) return 'exam';
+    if (/\bread(ing)?\b/.test(title)) return 'reading';
 
     return 'assignment';
   }
 
+  /**
+   * Summarize a rubric for the prompt: one line per criterion with its point
+   * share, plus a snippet of the long description.
+   */
+  describeRubric(rubric: RubricCriterion[]): string {
+    const total = rubric.reduce((sum, c) => sum + c.points, 0);
+
+    const lines = rubric.slice(0, MAX_PROMPT_CRITERIA).map(c => {
+      const share = total > 0 ? ` (${c.points} pts, ${Math.round((c.points / total) * 100)}%)` : '';
+      const detail = c.longDescription ? ` — ${this.truncate(this.stripHtml(c.longDescription), 150)}` : '';
+      return `- ${c.description || 'Criterion'}${share}${detail}`;
+    });
+
+    if (rubric.length > MAX_PROMPT_CRITERIA) {
+      lines.push(`- ...and ${rubric.length - MAX_PROMPT_CRITERIA} more criteria`);
+    }
+
+    return `Rubric (${rubric.length} criteria, ${total} pts):\n${lines.join('\n')}`;
+  }
+
+  /**
+   * Measured length of a module reading for the prompt
+   */
+  describeReadingLength(assignment: AssignmentInput): string | null {
+    if (assignment.readingWords) return `Reading length: ${assignment.readingWords} words`;
+    if (assignment.readingPages) return `Reading length: ${assignment.readingPages} PDF pages`;
+    return null;
+  }
+
+  /**
+   * How many equally weighted criteria a rubric amounts to.
+   * Six criteria where one carries 90% of the points behave like barely more
+   * than one, so this is the inverse sum of squared point shares rather than
+   * the raw count. Falls back to the raw count when no points are assigned.
+   */
+  getEffectiveCriterionCount(rubric: RubricCriterion[]): number {
+    const total = rubric.reduce((sum, c) => sum + c.points, 0);
+    if (total <= 0) return rubric.length;
+
+    const concentration = rubric.reduce((sum, c) => sum + (c.points / total) ** 2, 0);
+    return 1 / concentration;
+  }
+
   /**
    * Strip HTML tags from text
    */
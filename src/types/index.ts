@@ -14,7 +14,68 @@ export interface Assignment {
   htmlUrl: string;
   submissionTypes: string[];
   estimatedMinutes: number | null;
-  estimationConfidence: 'low' | 'medium' | 'high' | null;
+  estimateBreakdown?: EstimatePart[];
+  estimateRange?: EstimateRange | null;
+  estimationConfidence: EstimateConfidence | null;
+  submission: SubmissionState | null;
+  markedComplete: boolean;
+  gradeImpact?: number | null;
+  courseNickname?: string;
+  courseColor?: string;
+  unlockAt?: string | null;
+  lockAt?: string | null;
+  readingWords?: number;
+  readingPages?: number;
+  alerts?: AssignmentAlert[];
+  source?: string;
+  sourceName?: string;
+}
+
+/**
+ * The current student's submission state for an assignment, as reported by Canvas.
+ */
+export interface SubmissionState {
+  submitted: boolean;
+  graded: boolean;
+  missing: boolean;
+  late: boolean;
+  excused: boolean;
+}
+
+/**
+ * One row of an assignment's Canvas rubric.
+ * `points` is the criterion's share of the rubric total.
+ */
+export interface RubricCriterion {
+  description: string;
+  longDescription: string;
+  points: number;
+}
+
+/**
+ * Quiz settings from Classic Quizzes or New Quizzes. Null fields are unknown
+ * (New Quizzes don't show students the question count); a null
+ * `allowedAttempts` means unlimited attempts.
+ */
+export interface QuizDetails {
+  questionCount: number | null;
+  timeLimitMinutes: number | null;
+  allowedAttempts: number | null;
+}
+
+/**
+ * A discussion topic's existing entries (posts and replies). `entryWords` is
+ * null when Canvas hides the entries until the student posts first.
+ */
+export interface DiscussionDetails {
+  entryCount: number;
+  entryWords: number | null;
+}
+
+/** One part of an estimate, e.g. taking a quiz vs. studying for it. */
+export interface EstimatePart {
+  label: string;
+  minutes: number;
 }
 
 export type AssignmentType =
@@ -34,26 +95,117 @@ export interface AssignmentResponse {
   fromCache: boolean;
   lastUpdated: number;
   error?: string;
+  errorKind?: CanvasErrorKind;
+  refreshStatus?: RefreshStatus;
 }
 
-export interface Settings {
+/** Why a Canvas request failed (see services/canvas-errors.ts). */
+export type CanvasErrorKind =
+  | 'auth'          // expired or invalid token / session
+  | 'scope'         // token lacks the scopes or permissions needed
+  | 'offline'       // the browser has no network
+  | 'rate_limited'  // Canvas cost budget exhausted
+  | 'unreachable'   // the institution's Canvas did not respond or returned 5xx
+  | 'malformed'     // a 2xx that was not valid API JSON
+  | 'unknown';
+
+/** Why an AI estimation request failed (see services/ai-errors.ts). */
+export type AIErrorKind =
+  | 'auth'          // API key missing or rejected
+  | 'quota'         // account out of credit; retrying won't help
+  | 'model'         // the model doesn't exist or the key can't use it
+  | 'rate_limited'  // too many requests; transient
+  | 'unavailable'   // provider unreachable or returned 5xx
+  | 'malformed'     // a 2xx whose content wasn't the requested JSON
+  | 'unknown';
+
+/**
+ * Outcome of the most recent background refresh.
+ * Stored in chrome.storage.local as `lastRefreshStatus`.
+ * `ok` is false only when nothing could be fetched; a refresh where some
+ * Canvas profiles failed is ok with per-profile entries in `errors`.
+ */
+export interface RefreshStatus {
+  at: number;
+  ok: boolean;
+  errors: {
+    kind: CanvasErrorKind;
+    message: string;
+    profileId?: string;
+    profileName?: string;
+  }[];
+}
+
+/**
+ * One Canvas account at one institution. Students who are dual-enrolled or TA
+ * elsewhere keep several side by side; each is refreshed with its own client.
+ */
+export interface CanvasProfile {
+  id: string;
+  name: string;
   canvasUrl: string;
-  apiToken: string;
-  aiProvider: 'none' | 'openai' | 'local';
+  authMethod: 'token' | 'oauth';
+  apiToken?: string;
+  /** OAuth developer key; its secret is kept in chrome.storage.local (see services/canvas-auth.ts) */
+  clientId?: string;
+}
+
+export interface Settings {
+  canvasProfiles: CanvasProfile[];
+  /** 'none' or the id of a registered provider (see services/estimation-providers.ts) */
+  aiProvider: string;
   openaiApiKey?: string;
   localLlmUrl?: string;
   localLlmModel?: string;
+  /** Any server speaking OpenAI's /v1/chat/completions (LM Studio, vLLM, ...) */
+  compatibleBaseUrl?: string;
+  compatibleApiKey?: string;
+  compatibleModel?: string;
   estimationModel: string;
+  /** Assignments sent to the model per request; 1 sends them one at a time */
+  estimationBatchSize: number;
   showNotifications: boolean;
   refreshInterval: number;
   lookaheadDays: number;
   injectBadges: boolean;
   showSidebar: boolean;
+  hideCompleted: boolean;
+  courseSettings: Record<string, CourseSettings>;
+}
+
+/**
+ * Per-course choices made in Options, keyed by "<profileId>:<courseId>"
+ * (see services/course-settings.ts).
+ */
+export interface CourseSettings {
+  included: boolean;
+  nickname: string;
+  color: string;
+  workloadMultiplier: number;
+}
+
+/** An active student enrollment, as listed in the Options course manager. */
+export interface CourseSummary {
+  id: number;
+  name: string;
+  courseCode: string;
+  canvasNickname: string | null;
+  canvasColor: string | null;
+  profileId: string;
+  profileName: string;
+}
+
+export type EstimateConfidence = 'low' | 'medium' | 'high';
+
+/** Optimistic and pessimistic minutes around an estimate */
+export interface EstimateRange {
+  low: number;
+  high: number;
 }
 
 export interface TimeEstimate {
   estimatedMinutes: number;
-  confidence: 'low' | 'medium' | 'high';
+  confidence: EstimateConfidence;
   reasoning?: string;
 }
 
@@ -96,7 +248,16 @@ export interface AnalyticsEntry {
   date: string; // YYYY-MM-DD
   totalMinutes: number;
   assignmentCount: number;
-  byCourse: { courseName: string; minutes: number; count: number }[];
+  byCourse: { courseName: string; source?: string; color?: string; minutes: number; count: number }[];
+  changes?: ChangeCounts;
+}
+
+/** How many of each kind of change the day's refreshes saw. */
+export interface ChangeCounts {
+  added: number;
+  removed: number;
+  dueDateMoved: number;
+  descriptionEdited: number;
 }
 
 export interface CalendarStudyBlock {
@@ -114,31 +275,85 @@ export interface CalendarStudyBlock {
  * Lightweight assignment descriptor used as input to the time estimator and
  * stored in chrome.storage.local as `cachedAssignments`.
  * Every entry MUST have a unique assignmentID so it can be joined with
- * its corresponding AIEstimateResult.
+ * its corresponding AIEstimateResult. Assignment-backed items use the Canvas
+ * assignment id; other planner items (pages, announcements, events, notes)
+ * use a "<plannable_type>_<id>" string, and deadlines accepted from a syllabus
+ * use "syllabus_<courseId>_<hash>", and readings found in course modules use
+ * "module_item_<id>". Items are namespaced by their Canvas profile as
+ * "<profileId>:<id>" so institutions can't collide.
+ * `source` / `sourceName` identify the CanvasProfile the item came from.
  */
 export interface AssignmentInput {
-  assignmentID: number;
+  assignmentID: number | string;
   title: string;
   type: string;
   courseName: string;
+  courseNickname?: string;
   courseId: number;
   dueDate: string;
+  unlockAt?: string;
+  lockAt?: string;
   htmlUrl: string;
   pointsPossible?: number;
   submissionTypes?: string[];
   description?: string;
+  submission?: SubmissionState;
+  rubric?: RubricCriterion[];
+  gradeImpact?: number;
+  readingWords?: number;
+  readingPages?: number;
+  quiz?: QuizDetails;
+  discussion?: DiscussionDetails;
+  courseColor?: string;
+  workloadMultiplier?: number;
+  markedComplete?: boolean;
+  dismissed?: boolean;
+  source?: string;
+  sourceName?: string;
   [key: string]: unknown;
 }
 
+/**
+ * What changed between the cached assignments and the latest Canvas fetch.
+ * Stored in chrome.storage.local as `lastChangeSet` after every refresh.
+ * Ids refer to AssignmentInput.assignmentID.
+ */
+export interface AssignmentChangeSet {
+  syncedAt: number;
+  added: Array<number | string>;
+  removed: { assignmentID: number | string; title: string; courseName: string }[];
+  dueDateMoved: { assignmentID: number | string; previousDueDate: string | null; dueDate: string | null }[];
+  descriptionEdited: Array<number | string>;
+}
+
+/**
+ * A course announcement that mentions a tracked assignment, found by the
+ * announcement watcher. Stored in chrome.storage.local as `announcementAlerts`.
+ * `announcedDate` is the date given in a date-change sentence, if any.
+ */
+export interface AssignmentAlert {
+  assignmentID: number | string;
+  kind: 'date_change' | 'mention';
+  announcementTitle: string;
+  announcementUrl: string;
+  postedAt: string;
+  excerpt: string;
+  announcedDate: string | null;
+}
+
 /**
  * The AI (or heuristic) estimate result for one assignment.
  * Stored in chrome.storage.local as `aiEstimateResults`.
  * Linked to an AssignmentInput via `assignmentID`.
  */
 export interface AIEstimateResult {
-  assignmentID: number;
+  assignmentID: number | string;
   minutes: number;
   reasoning?: string;
+  /** How `minutes` splits up, when the estimate has distinct parts. */
+  breakdown?: EstimatePart[];
+  confidence: EstimateConfidence;
+  range: EstimateRange;
 }
 
 // === Stripe Config ===
@@ -172,10 +387,18 @@ export type MessageType =
   | { type: 'GET_CACHED_ASSIGNMENTS' }
   | { type: 'ESTIMATE_SINGLE'; assignment: Partial<Assignment> }
   | { type: 'TEST_CONNECTION'; url: string; token: string }
+  | { type: 'CANVAS_OAUTH_SIGN_IN'; profile: CanvasProfile }
+  | { type: 'CANVAS_OAUTH_SIGN_OUT'; profileId: string }
+  | { type: 'GET_CANVAS_AUTH_STATUS'; profileId: string }
+  | { type: 'GET_COURSES' }
+  | { type: 'SCAN_SYLLABI' }
+  | { type: 'ACCEPT_SYLLABUS_ITEMS'; items: AssignmentInput[] }
+  | { type: 'GET_SYLLABUS_TASKS' }
+  | { type: 'REMOVE_SYLLABUS_TASK'; assignmentID: number | string }
   | { type: 'GET_USER_TIER' }
   | { type: 'VALIDATE_SUBSCRIPTION'; subscriptionId: string }
   | { type: 'GET_USAGE' }
   | { type: 'CHECK_CAN_REFRESH' }
   | { type: 'GET_FEATURE_FLAGS' }
-  | { type: 'SYNC_CALENDAR' }
+  | { type: 'SYNC_CALENDAR'; pessimistic?: boolean }
   | { type: 'GET_ANALYTICS' };
@@ -0,0 +1,38 @@
+/**
+ * Helpers for an assignment's availability window.
+ * Dates are the student's effective ones (section / individual overrides
+ * already resolved by CanvasAPI), so every view orders and alerts the same way.
+ */
+
+interface DatedAssignment {
+  dueDate?: string | null;
+  unlockAt?: string | null;
+  lockAt?: string | null;
+}
+
+/**
+ * The last moment the student can work toward: the due date, or the lock date
+ * for undated work that still closes. Null when neither is set.
+ */
+export function getDeadline(assignment: DatedAssignment): Date | null {
+  const date = assignment.dueDate || assignment.lockAt;
+  return date ? new Date(date) : null;
+}
+
+/**
+ * Sort comparator: earliest deadline first, undated work last.
+ */
+export function compareByDeadline(a: DatedAssignment, b: DatedAssignment): number {
+  const deadlineA = getDeadline(a);
+  const deadlineB = getDeadline(b);
+  if (!deadlineA) return deadlineB ? 1 : 0;
+  if (!deadlineB) return -1;
+  return deadlineA.getTime() - deadlineB.getTime();
+}
+
+/**
+ * Whether the assignment has not opened yet (unlock_at still in the future)
+ */
+export function isNotYetUnlocked(assignment: DatedAssignment, now: Date = new Date()): boolean {
+  return !!assignment.unlockAt && new Date(assignment.unlockAt) > now;
+}
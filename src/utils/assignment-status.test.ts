@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { getSubmissionLabel, isAssignmentComplete } from './assignment-status';
+import type { SubmissionState } from '../types';
+
+const state = (fields: Partial<SubmissionState>): SubmissionState => ({
+  submitted: false,
+  graded: false,
+  missing: false,
+  late: false,
+  excused: false,
+  ...fields
+});
+
+describe('isAssignmentComplete', () => {
+  it('counts submitted, excused and planner-completed work as done', () => {
+    expect(isAssignmentComplete({ submission: state({ submitted: true, graded: true }) })).toBe(true);
+    expect(isAssignmentComplete({ submission: state({ excused: true }) })).toBe(true);
+    expect(isAssignmentComplete({ submission: null, markedComplete: true })).toBe(true);
+  });
+
+  it('keeps work Canvas graded as missing open', () => {
+    const autoGraded = state({ graded: true, missing: true });
+    expect(isAssignmentComplete({ submission: autoGraded })).toBe(false);
+    expect(getSubmissionLabel(autoGraded)).toBe('Missing');
+  });
+
+  it('keeps a grade without a submission open', () => {
+    const gradedOnly = state({ graded: true });
+    expect(isAssignmentComplete({ submission: gradedOnly })).toBe(false);
+    expect(getSubmissionLabel(gradedOnly)).toBeNull();
+  });
+});
+
+describe('getSubmissionLabel', () => {
+  it('labels turned-in work', () => {
+    expect(getSubmissionLabel(state({ submitted: true, graded: true }))).toBe('Graded');
+    expect(getSubmissionLabel(state({ submitted: true, late: true }))).toBe('Submitted late');
+    expect(getSubmissionLabel(state({ excused: true, missing: true }))).toBe('Excused');
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Helpers for reasoning about an assignment's submission state.
+ * Shared by the service worker, popup, and sidebar so "done" means the same thing everywhere.
+ */
+
+import type { SubmissionState } from '../types';
+
+/**
+ * An assignment counts as complete once it has been turned in or excused,
+ * or when the student marked it done in the Canvas planner.
+ * A grade alone doesn't count: Canvas grades missing work (often a 0) without
+ * a submission, and work it still marks missing is open.
+ * Completed work is left out of workload totals, notifications, and estimation.
+ */
+export function isAssignmentComplete(assignment: {
+  submission?: SubmissionState | null;
+  markedComplete?: boolean;
+}): boolean {
+  if (assignment.markedComplete) return true;
+
+  const submission = assignment.submission;
+  if (!submission) return false;
+
+  return (submission.submitted && !submission.missing) || submission.excused;
+}
+
+/**
+ * Short human-readable label for a submission state, or null for untouched work.
+ */
+export function getSubmissionLabel(submission: SubmissionState | null | undefined): string | null {
+  if (!submission) return null;
+
+  if (submission.excused) return 'Excused';
+  if (!submission.submitted) return submission.missing ? 'Missing' : null;
+  if (submission.graded) return 'Graded';
+  return submission.late ? 'Submitted late' : 'Submitted';
+}
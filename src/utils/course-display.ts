@@ -0,0 +1,7 @@
+/**
+ * How a course is labelled in every view: the nickname the student chose
+ * (in Options, else in Canvas), falling back to the official course name.
+ */
+export function getCourseLabel(assignment: { courseName: string; courseNickname?: string | null }): string {
+  return assignment.courseNickname || assignment.courseName;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { applyTimeOfDay, findDateMentions } from './date-mentions';
+
+const now = new Date(2026, 8, 1);
+
+describe('findDateMentions', () => {
+  it('reads month names, ordinals and explicit years', () => {
+    const mentions = findDateMentions('Essay due Sept 15. Midterm on Oct. 3rd, 2027.', now);
+    expect(mentions.map(m => m.matched)).toEqual(['Sept 15', 'Oct. 3rd, 2027']);
+    expect(mentions[0].date).toEqual(new Date(2026, 8, 15, 23, 59));
+    expect(mentions[1].date).toEqual(new Date(2027, 9, 3, 23, 59));
+  });
+
+  it('reads US numeric and ISO dates in order of appearance', () => {
+    const mentions = findDateMentions('Final 2026-12-10; quiz 9/22; lab 10/5/26', now);
+    expect(mentions.map(m => m.date)).toEqual([
+      new Date(2026, 11, 10, 23, 59),
+      new Date(2026, 8, 22, 23, 59),
+      new Date(2026, 9, 5, 23, 59)
+    ]);
+  });
+
+  it('gives a yearless date the year closest to now', () => {
+    const [mention] = findDateMentions('Reading due Jan 10', new Date(2026, 11, 20));
+    expect(mention.date.getFullYear()).toBe(2027);
+  });
+
+  it('ignores fractions and scores', () => {
+    expect(findDateMentions('Answer 1/2 of the questions for 8/10 points, worth 3/4%', now)).toEqual([]);
+  });
+
+  it('drops impossible days', () => {
+    expect(findDateMentions('Due 2/30 or Feb 31', now)).toEqual([]);
+  });
+});
+
+describe('applyTimeOfDay', () => {
+  it('sets an afternoon time', () => {
+    const date = new Date(2026, 8, 15, 23, 59);
+    applyTimeOfDay(date, 'due by 5:30 p.m.');
+    expect([date.getHours(), date.getMinutes()]).toEqual([17, 30]);
+  });
+
+  it('reads 12am as midnight and noon as 12:00', () => {
+    const early = new Date(2026, 8, 15, 23, 59);
+    applyTimeOfDay(early, 'at 12am');
+    expect(early.getHours()).toBe(0);
+
+    const noon = new Date(2026, 8, 15, 23, 59);
+    applyTimeOfDay(noon, 'at noon');
+    expect([noon.getHours(), noon.getMinutes()]).toEqual([12, 0]);
+  });
+
+  it('leaves the date alone without a time', () => {
+    const date = new Date(2026, 8, 15, 23, 59);
+    applyTimeOfDay(date, 'due Monday');
+    expect(date.getHours()).toBe(23);
+  });
+});
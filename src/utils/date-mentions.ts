@@ -0,0 +1,91 @@
+/**
+ * Helpers for dates written in free text (syllabi, announcements):
+ * "Sept 15", "Oct. 3rd, 2026", "9/15", "2026-09-15", with an optional time
+ * of day. Dates without a year get the year that puts them closest to `now`.
+ */
+
+export interface DateMention {
+  date: Date;
+  matched: string;
+  index: number;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+const MONTH_NAME_DATE =
+  /\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?\b/gi;
+// "1/2 of", "8/10 points" are fractions, not dates
+const NUMERIC_DATE = /(?<![\d/.])(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?(?![\d/%])(?!\s*(?:of|pts?|points?)\b)/gi;
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+export const TIME_OF_DAY = /\b(?:(?:at|by)\s+)?(?:(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\b\.?|(noon|midnight)\b)/i;
+
+/**
+ * Every date written in a piece of text, in order of appearance.
+ * Month/day order is US style ("9/15" is September 15).
+ */
+export function findDateMentions(text: string, now: Date = new Date()): DateMention[] {
+  const found: DateMention[] = [];
+
+  for (const match of text.matchAll(MONTH_NAME_DATE)) {
+    const month = MONTHS[match[1].slice(0, 3).toLowerCase()];
+    const date = buildDate(match[3], month, Number(match[2]), now);
+    if (date) found.push({ date, matched: match[0], index: match.index ?? 0 });
+  }
+  for (const match of text.matchAll(NUMERIC_DATE)) {
+    const date = buildDate(match[3], Number(match[1]) - 1, Number(match[2]), now);
+    if (date) found.push({ date, matched: match[0], index: match.index ?? 0 });
+  }
+  for (const match of text.matchAll(ISO_DATE)) {
+    const date = buildDate(match[1], Number(match[2]) - 1, Number(match[3]), now);
+    if (date) found.push({ date, matched: match[0], index: match.index ?? 0 });
+  }
+
+  return found.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * A local date at 11:59 PM, or null for impossible days ("2/30").
+ * Without a year, the closest of last, this and next year to `now` wins.
+ */
+function buildDate(year: string | undefined, month: number, day: number, now: Date): Date | null {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+
+  const make = (y: number): Date | null => {
+    const date = new Date(y, month, day, 23, 59, 0, 0);
+    return date.getMonth() === month ? date : null;
+  };
+
+  if (year) {
+    return make(year.length === 2 ? 2000 + Number(year) : Number(year));
+  }
+
+  const candidates = [now.getFullYear() - 1, now.getFullYear(), now.getFullYear() + 1]
+    .map(make)
+    .filter((d): d is Date => d !== null);
+  if (candidates.length === 0) return null;
+
+  return candidates.reduce((best, d) =>
+    Math.abs(d.getTime() - now.getTime()) < Math.abs(best.getTime() - now.getTime()) ? d : best
+  );
+}
+
+/**
+ * Set the time of day if the text names one ("by 5pm", "at noon")
+ */
+export function applyTimeOfDay(date: Date, text: string): void {
+  const match = text.match(TIME_OF_DAY);
+  if (!match) return;
+
+  if (match[4]) {
+    if (match[4].toLowerCase() === 'noon') date.setHours(12, 0);
+    else date.setHours(23, 59);
+    return;
+  }
+
+  let hours = Number(match[1]) % 12;
+  if (match[3].toLowerCase() === 'p') hours += 12;
+  date.setHours(hours, Number(match[2] || 0));
+}
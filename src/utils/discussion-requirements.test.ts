@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseDiscussionRequirements } from './discussion-requirements';
+
+describe('parseDiscussionRequirements', () => {
+  it('defaults to one post and no replies', () => {
+    expect(parseDiscussionRequirements('<p>Share your thoughts on the reading.</p>')).toEqual({
+      posts: 1,
+      replies: 0,
+      postWords: null,
+      replyWords: null
+    });
+  });
+
+  it('reads a post and reply sentence with worded numbers', () => {
+    const prompt = '<p>Post one initial response of at least 250 words, then reply to two classmates (150 words each).</p>';
+    expect(parseDiscussionRequirements(prompt)).toEqual({ posts: 1, replies: 2, postWords: 250, replyWords: 150 });
+  });
+
+  it('treats "respond to the prompt" as the initial post', () => {
+    const prompt = 'Respond to the prompt in 300 words and reply to two classmates.';
+    expect(parseDiscussionRequirements(prompt)).toEqual({ posts: 1, replies: 2, postWords: 300, replyWords: null });
+  });
+
+  it('reads "respond to N of your classmates" as replies', () => {
+    const prompt = 'Write your initial post by Wednesday. Respond to at least three of your classmates\' posts by Sunday; each response should be 100 words.';
+    expect(parseDiscussionRequirements(prompt)).toMatchObject({ posts: 1, replies: 3, replyWords: 100 });
+  });
+
+  it('keeps word counts with the clause they belong to', () => {
+    const prompt = '<ul><li>Your main post should be 200-300 words.</li><li>Replies must be at least 75 words.</li></ul>';
+    expect(parseDiscussionRequirements(prompt)).toMatchObject({ postWords: 200, replyWords: 75 });
+  });
+
+  it('counts digit replies and multiple posts', () => {
+    const prompt = 'Make 2 original posts and 4 substantive replies to your peers.';
+    expect(parseDiscussionRequirements(prompt)).toMatchObject({ posts: 2, replies: 4 });
+  });
+
+  it('counts a reply to "a classmate" as one', () => {
+    expect(parseDiscussionRequirements('Then reply to a classmate.').replies).toBe(1);
+  });
+
+  it('ignores "responses" that are not replies to classmates', () => {
+    const prompt = 'Your response should cite two sources and be about 400 words.';
+    expect(parseDiscussionRequirements(prompt)).toMatchObject({ posts: 1, replies: 0, postWords: 400 });
+  });
+});
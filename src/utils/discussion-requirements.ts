@@ -0,0 +1,105 @@
+/**
+ * Participation requirements written in a discussion prompt, e.g.
+ * "Post one initial response of at least 250 words, then reply to two
+ * classmates (150 words each)".
+ */
+
+export interface DiscussionRequirements {
+  posts: number;
+  replies: number;
+  /** Minimum words per post / reply, when the prompt gives one */
+  postWords: number | null;
+  replyWords: number | null;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const COUNT = '(\\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten)';
+
+/** Who a reply goes to */
+const PEERS = '(?:classmates?|peers?|students?|others|group members?)';
+
+/**
+ * A clause about replying: "reply to two classmates", "respond to at least 3
+ * of your peers", "two responses to classmates", "replies should be...".
+ * A bare "respond" (to the prompt) is the initial post, not a reply.
+ */
+const REPLY_CLAUSE = new RegExp(
+  `\\b(?:repl(?:y|ies|ying)|respond(?:ing)?\\s+to\\s+(?:at least\\s+)?(?:${COUNT}\\s+)?(?:of\\s+)?(?:your\\s+)?(?:other\\s+)?${PEERS}` +
+  `|responses?\\s+to\\s+(?:your\\s+)?(?:other\\s+)?${PEERS})`,
+  'i'
+);
+
+/** The count inside a reply clause: "reply to two classmates", "two (peer) replies" */
+const REPLY_COUNT = new RegExp(
+  `\\b(?:(?:reply|respond)\\s+to\\s+(?:at least\\s+)?${COUNT}\\s+(?:of\\s+)?(?:your\\s+)?(?:other\\s+)?${PEERS}` +
+  `|${COUNT}\\s+(?:(?:substantive|thoughtful|peer|separate|additional|other)\\s+)*(?:replies|reply|responses|response)\\b)`,
+  'i'
+);
+
+/** The count inside a post clause: "one initial post", "2 original posts" */
+const POST_COUNT = new RegExp(
+  `\\b${COUNT}\\s+(?:(?:initial|original|main|primary|discussion)\\s+)?(?:posts?|threads?|responses?)\\b`,
+  'i'
+);
+
+/** Words that put a clause about the initial post */
+const POST_CLAUSE = /\b(?:initial|original|main|primary|posts?|threads?|prompt)\b/i;
+
+/** "250 words", "250-300 words", "at least 150 words" */
+const WORD_COUNT = /\b(\d{2,4})(?:\s*(?:-|–|to)\s*\d{2,4})?\s*(?:\+\s*)?words?\b/i;
+
+/** Sentence ends, and "and" / "then" joining two instructions */
+const CLAUSE_BREAK = /(?<=[.!?;])\s+|,?\s+\b(?:and then|and|then)\b\s+/i;
+
+/**
+ * Read post / reply counts and word minimums from a discussion prompt.
+ * The prompt is split into clauses; a clause about replying to classmates
+ * sets the reply count and length, a clause about the post sets the post's,
+ * and a clause that says neither ("each response should be 100 words")
+ * continues the one before it. Defaults to one post and no replies when the
+ * prompt doesn't say.
+ */
+export function parseDiscussionRequirements(html: string): DiscussionRequirements {
+  const text = (html || '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ');
+
+  const requirements: DiscussionRequirements = { posts: 1, replies: 0, postWords: null, replyWords: null };
+  let replyCount: number | null = null;
+  let postCount: number | null = null;
+  let aboutReplies = false;
+
+  for (const clause of text.split(CLAUSE_BREAK)) {
+    const words = clause.match(WORD_COUNT);
+    if (REPLY_CLAUSE.test(clause)) {
+      aboutReplies = true;
+    } else if (POST_CLAUSE.test(clause)) {
+      aboutReplies = false;
+    }
+
+    if (aboutReplies) {
+      const count = clause.match(REPLY_COUNT);
+      const counted = count ? toNumber(count[1] ?? count[2]) : null;
+      // "reply to your classmates" without a number still means at least one
+      replyCount ??= counted ?? (/\b(?:reply|respond)\s+to\b/i.test(clause) ? 1 : null);
+      if (words) requirements.replyWords ??= Number(words[1]);
+    } else {
+      const count = clause.match(POST_COUNT);
+      if (count) postCount ??= toNumber(count[1]);
+      if (words) requirements.postWords ??= Number(words[1]);
+    }
+  }
+
+  requirements.posts = Math.max(1, postCount ?? 1);
+  requirements.replies = replyCount ?? 0;
+  return requirements;
+}
+
+function toNumber(value: string): number {
+  return NUMBER_WORDS[value.toLowerCase()] ?? Number(value);
+}
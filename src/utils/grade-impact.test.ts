@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { compareByImpact, formatGradePercent, getGradePointsPerHour } from './grade-impact';
+
+describe('getGradePointsPerHour', () => {
+  it('divides the grade share by the estimate in hours', () => {
+    expect(getGradePointsPerHour({ gradeImpact: 6, estimatedMinutes: 30 })).toBe(12);
+  });
+
+  it('is null when either side is unknown', () => {
+    expect(getGradePointsPerHour({ gradeImpact: null, estimatedMinutes: 30 })).toBeNull();
+    expect(getGradePointsPerHour({ gradeImpact: 6, estimatedMinutes: 0 })).toBeNull();
+  });
+
+  it('keeps zero-weight work at zero rather than unknown', () => {
+    expect(getGradePointsPerHour({ gradeImpact: 0, estimatedMinutes: 60 })).toBe(0);
+  });
+});
+
+describe('formatGradePercent', () => {
+  it('rounds to a whole percent from 10% up and to one decimal below', () => {
+    expect([12.4, 2.46, 0.44].map(formatGradePercent)).toEqual(['12%', '2.5%', '0.4%']);
+  });
+});
+
+describe('compareByImpact', () => {
+  const quiz = { id: 'quiz', gradeImpact: 2, estimatedMinutes: 15 };
+  const essay = { id: 'essay', gradeImpact: 15, estimatedMinutes: 300 };
+  const ungraded = { id: 'ungraded', gradeImpact: null, estimatedMinutes: 20 };
+  const items = [ungraded, quiz, essay];
+
+  it('sorts by grade impact, unknowns last', () => {
+    const sorted = [...items].sort((a, b) => compareByImpact('impact', a, b));
+    expect(sorted.map(x => x.id)).toEqual(['essay', 'quiz', 'ungraded']);
+  });
+
+  it('sorts by grade percent per hour, unknowns last', () => {
+    const sorted = [...items].sort((a, b) => compareByImpact('value', a, b));
+    expect(sorted.map(x => x.id)).toEqual(['quiz', 'essay', 'ungraded']);
+  });
+
+  it('leaves the order alone when sorting by due date', () => {
+    expect(compareByImpact('due', quiz, essay)).toBe(0);
+  });
+});
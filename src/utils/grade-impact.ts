@@ -0,0 +1,54 @@
+/**
+ * Helpers for an assignment's weight in the final grade.
+ * `gradeImpact` is the percent of the final grade the assignment is worth
+ * (from assignment group weights); "grade points per hour" divides that by
+ * the time estimate, so quick high-weight work ranks first.
+ */
+
+interface ImpactAssignment {
+  gradeImpact?: number | null;
+  estimatedMinutes?: number | null;
+}
+
+export type AssignmentSortKey = 'due' | 'impact' | 'value';
+
+export const ASSIGNMENT_SORT_LABELS: Record<AssignmentSortKey, string> = {
+  due: 'Due date',
+  impact: 'Grade impact',
+  value: 'Grade % per hour',
+};
+
+/**
+ * Percent of the final grade earned per hour of estimated work, or null when
+ * either side is unknown
+ */
+export function getGradePointsPerHour(assignment: ImpactAssignment): number | null {
+  if (assignment.gradeImpact == null || !assignment.estimatedMinutes) return null;
+  return assignment.gradeImpact / (assignment.estimatedMinutes / 60);
+}
+
+/**
+ * Format a grade percentage compactly: "12%", "2.5%", "0.4%"
+ */
+export function formatGradePercent(percent: number): string {
+  if (percent >= 10) return `${Math.round(percent)}%`;
+  return `${Math.round(percent * 10) / 10}%`;
+}
+
+/**
+ * Sort comparator for the impact-based orders: highest first, unknowns last.
+ * Returns 0 for 'due' so callers keep their deadline order.
+ */
+export function compareByImpact(sortBy: AssignmentSortKey, a: ImpactAssignment, b: ImpactAssignment): number {
+  if (sortBy === 'due') return 0;
+
+  const valueOf = sortBy === 'impact'
+    ? (x: ImpactAssignment) => x.gradeImpact ?? null
+    : getGradePointsPerHour;
+  const valueA = valueOf(a);
+  const valueB = valueOf(b);
+
+  if (valueA === null) return valueB === null ? 0 : 1;
+  if (valueB === null) return -1;
+  return valueB - valueA;
+}
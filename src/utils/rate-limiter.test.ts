@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCanvasRateLimiter, type RateLimiter } from './rate-limiter';
+
+/**
+ * Schedule `count` requests that stay in flight until released
+ */
+function startRequests(limiter: RateLimiter, count: number) {
+  const started: number[] = [];
+  const releases: Array<() => void> = [];
+  for (let i = 0; i < count; i++) {
+    void limiter.schedule(() => {
+      started.push(i);
+      return new Promise<void>(resolve => releases.push(resolve));
+    });
+  }
+  return { started, release: () => releases.shift()?.() };
+}
+
+/**
+ * Schedule `count` requests that finish at once, counting the finished ones
+ */
+function runRequests(limiter: RateLimiter, count: number) {
+  const finished = { count: 0 };
+  for (let i = 0; i < count; i++) {
+    void limiter.schedule(async () => {
+      finished.count++;
+    });
+  }
+  return finished;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createCanvasRateLimiter', () => {
+  it('keeps at most 4 requests in flight', async () => {
+    const limiter = createCanvasRateLimiter();
+    const requests = startRequests(limiter, 6);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(requests.started).toEqual([0, 1, 2, 3]);
+
+    requests.release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(requests.started).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('holds requests past the burst until tokens refill', async () => {
+    const finished = runRequests(createCanvasRateLimiter(), 12);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(finished.count).toBe(10);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(finished.count).toBe(10);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(finished.count).toBe(12);
+  });
+});
+
+describe('RateLimiter.recordQuota', () => {
+  it('halves concurrency when X-Rate-Limit-Remaining drops below half', async () => {
+    const limiter = createCanvasRateLimiter();
+    limiter.recordQuota(200);
+    const requests = startRequests(limiter, 4);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(requests.started).toEqual([0, 1]);
+  });
+
+  it('pauses and goes one at a time when the budget is nearly spent', async () => {
+    const limiter = createCanvasRateLimiter();
+    limiter.recordQuota(50);
+    const requests = startRequests(limiter, 2);
+
+    // (100 - 50) units leak back at 10 per second
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(requests.started).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(requests.started).toEqual([0]);
+  });
+
+  it('grows concurrency back one step per healthy response', async () => {
+    const limiter = createCanvasRateLimiter();
+    limiter.recordQuota(150);
+    limiter.recordQuota(150);
+    limiter.recordQuota(600);
+    const requests = startRequests(limiter, 4);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(requests.started).toEqual([0, 1]);
+  });
+});
+
+describe('RateLimiter.recordThrottle', () => {
+  it('backs off after a 403, doubling the pause on each repeat', async () => {
+    const limiter = createCanvasRateLimiter();
+    limiter.recordThrottle();
+    const first = startRequests(limiter, 1);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(first.started).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(first.started).toEqual([0]);
+    first.release();
+
+    limiter.recordThrottle();
+    const second = startRequests(limiter, 1);
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(second.started).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(second.started).toEqual([0]);
+  });
+
+  it('drops to one request at a time', async () => {
+    const limiter = createCanvasRateLimiter();
+    limiter.recordThrottle();
+    const requests = startRequests(limiter, 3);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(requests.started).toEqual([0]);
+  });
+
+  it('starts the backoff over once the budget is healthy again', async () => {
+    const limiter = createCanvasRateLimiter();
+    limiter.recordThrottle();
+    await vi.advanceTimersByTimeAsync(2000);
+    limiter.recordQuota(600);
+
+    limiter.recordThrottle();
+    const requests = startRequests(limiter, 1);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(requests.started).toEqual([0]);
+  });
+});
@@ -1,24 +1,49 @@
 /**
  * Token-bucket rate limiter with exponential backoff retry.
  * Used to respect Canvas API rate limits and retry transient AI API failures.
+ *
+ * Canvas throttles each access token against a cost budget rather than a
+ * request count and reports what is left in `X-Rate-Limit-Remaining`.
+ * The limiter tracks that value and adapts: concurrency grows by one while
+ * the budget is healthy, halves when it runs low, and pauses new requests
+ * entirely after a 403 "Rate Limit Exceeded", backing off further each time.
  */
 
 interface RateLimiterConfig {
   maxTokens: number;       // max burst size
   refillRate: number;      // tokens per second
+  maxConcurrent?: number;  // upper bound for in-flight requests
 }
 
+// Canvas' cost budget starts at 700 units per token
+const QUOTA_HEALTHY = 350;
+const QUOTA_LOW = 100;
+
+// Canvas leaks the bucket back at roughly this many units per second
+const QUOTA_RECOVERY_PER_SECOND = 10;
+
+const THROTTLE_BASE_DELAY_MS = 2000;
+const THROTTLE_MAX_DELAY_MS = 60000;
+
 export class RateLimiter {
   private tokens: number;
   private maxTokens: number;
   private refillRate: number;
   private lastRefill: number;
+  private maxConcurrent: number;
+  private concurrency: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private pausedUntil = 0;
+  private throttleCount = 0;
 
   constructor(config: RateLimiterConfig) {
     this.maxTokens = config.maxTokens;
     this.refillRate = config.refillRate;
     this.tokens = config.maxTokens;
     this.lastRefill = Date.now();
+    this.maxConcurrent = config.maxConcurrent ?? config.maxTokens;
+    this.concurrency = this.maxConcurrent;
   }
 
   private refill(): void {
@@ -29,6 +54,11 @@ export class RateLimiter {
   }
 
   async acquire(): Promise<void> {
+    const pauseMs = this.pausedUntil - Date.now();
+    if (pauseMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, pauseMs));
+    }
+
     this.refill();
 
     if (this.tokens >= 1) {
@@ -42,11 +72,72 @@ export class RateLimiter {
     this.tokens = 0;
     this.lastRefill = Date.now();
   }
+
+  /**
+   * Run a request inside the limiter: waits for a concurrency slot and a
+   * token, and frees the slot when the request settles.
+   */
+  async schedule<T>(fn: () => Promise<T>): Promise<T> {
+    while (this.active >= this.concurrency) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    this.active++;
+    try {
+      await this.acquire();
+      return await fn();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  /**
+   * Adapt to the budget Canvas reported on the last response.
+   * Additive increase while healthy, multiplicative decrease when low, and a
+   * pause long enough for the bucket to leak back above the low-water mark
+   * when it is nearly empty.
+   */
+  recordQuota(remaining: number, cost: number = 0): void {
+    if (!Number.isFinite(remaining)) return;
+
+    if (remaining < QUOTA_LOW) {
+      this.concurrency = 1;
+      const recoverMs = ((QUOTA_LOW - remaining + cost) / QUOTA_RECOVERY_PER_SECOND) * 1000;
+      this.pauseFor(recoverMs);
+    } else if (remaining < QUOTA_HEALTHY) {
+      this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+    } else {
+      this.throttleCount = 0;
+      this.concurrency = Math.min(this.maxConcurrent, this.concurrency + 1);
+    }
+
+    // Let queued requests in if the window grew; each re-checks for a slot
+    const openSlots = this.concurrency - this.active;
+    for (let i = 0; i < openSlots && this.waiting.length > 0; i++) {
+      this.waiting.shift()?.();
+    }
+  }
+
+  /**
+   * Canvas rejected a request with 403 "Rate Limit Exceeded": drop to one
+   * request at a time and pause, doubling the pause on each repeat.
+   */
+  recordThrottle(): void {
+    this.concurrency = 1;
+    this.pauseFor(Math.min(THROTTLE_BASE_DELAY_MS * Math.pow(2, this.throttleCount), THROTTLE_MAX_DELAY_MS));
+    this.throttleCount++;
+  }
+
+  private pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
 }
 
 /**
  * Retry a function with exponential backoff.
- * Only retries on transient errors (429, 500, 502, 503, 504).
+ * Only retries on transient errors (429, 500, 502, 503, 504, and Canvas'
+ * 403 "Rate Limit Exceeded").
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
@@ -62,7 +153,7 @@ export async function withRetry<T>(
       lastError = error instanceof Error ? error : new Error(String(error));
 
       // Only retry on transient errors
-      const isTransient = /\b(429|500|502|503|504)\b/.test(lastError.message);
+      const isTransient = /\b(429|500|502|503|504)\b/.test(lastError.message) || isRateLimitError(lastError);
       if (!isTransient || attempt === maxRetries) {
         throw lastError;
       }
@@ -75,5 +166,19 @@ export async function withRetry<T>(
   throw lastError;
 }
 
-// Pre-configured rate limiter for Canvas API (10 requests per 10 seconds)
-export const canvasRateLimiter = new RateLimiter({ maxTokens: 10, refillRate: 1 });
+/**
+ * Canvas signals an exhausted cost budget with 403 and "Rate Limit Exceeded"
+ * in the body, not 429
+ */
+export function isRateLimitError(error: Error): boolean {
+  return /rate limit exceeded/i.test(error.message);
+}
+
+/**
+ * Rate limiter for one Canvas access token (10 requests per 10 seconds,
+ * up to 4 in flight). Canvas budgets each token separately, so every
+ * CanvasAPI client gets its own.
+ */
+export function createCanvasRateLimiter(): RateLimiter {
+  return new RateLimiter({ maxTokens: 10, refillRate: 1, maxConcurrent: 4 });
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { countPdfPages, countWords, formatReadingLength, getReadingMinutes } from './reading-length';
+
+function pdf(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer;
+}
+
+describe('countWords', () => {
+  it('counts visible words only', () => {
+    const html = '<h2>Week 3</h2><p>Read the&nbsp;chapter &mdash; closely.</p><script>var hidden = 1;</script><style>p { x: y }</style>';
+    expect(countWords(html)).toBe(6);
+  });
+
+  it('is zero for an empty body', () => {
+    expect(countWords('')).toBe(0);
+  });
+});
+
+describe('countPdfPages', () => {
+  it('takes the root page tree count', () => {
+    const bytes = pdf([
+      '1 0 obj << /Type /Pages /Kids [2 0 R 3 0 R] /Count 12 >> endobj',
+      '2 0 obj << /Count 5 /Type /Pages /Parent 1 0 R >> endobj',
+      '3 0 obj << /Type /Pages /Count 7 /Parent 1 0 R >> endobj',
+    ].join('\n'));
+    expect(countPdfPages(bytes)).toBe(12);
+  });
+
+  it('falls back to counting page objects', () => {
+    const bytes = pdf('<< /Type /Page /Parent 1 0 R >>\n<< /Type /Page /Parent 1 0 R >>\n<< /Type /Catalog >>');
+    expect(countPdfPages(bytes)).toBe(2);
+  });
+
+  it('is null when the page tree is compressed', () => {
+    expect(countPdfPages(pdf('%PDF-1.7\n1 0 obj << /Type /ObjStm /N 4 >> stream ... endstream'))).toBeNull();
+  });
+});
+
+describe('formatReadingLength', () => {
+  it('prefers words, then pages', () => {
+    expect(formatReadingLength({ readingWords: 3200, readingPages: 10 })).toBe('3,200 words');
+    expect(formatReadingLength({ readingPages: 24 })).toBe('24 pages');
+    expect(formatReadingLength({ readingWords: null, readingPages: null })).toBeNull();
+  });
+});
+
+describe('getReadingMinutes', () => {
+  it('reads words at 200 a minute and pages at 5 minutes each', () => {
+    expect(getReadingMinutes({ readingWords: 3050 })).toBe(16);
+    expect(getReadingMinutes({ readingPages: 24 })).toBe(120);
+    expect(getReadingMinutes({})).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Helpers for sizing module readings: word counts of Canvas Pages, page
+ * counts of PDFs, and the reading time they add up to.
+ */
+
+/** Careful reading pace for course material. */
+export const READING_WORDS_PER_MINUTE = 200;
+
+/** A dense PDF page (article, textbook chapter) takes about this long. */
+export const MINUTES_PER_PDF_PAGE = 5;
+
+interface ReadingLength {
+  readingWords?: number | null;
+  readingPages?: number | null;
+}
+
+/**
+ * Words of visible text in an HTML body
+ */
+export function countWords(html: string): number {
+  const text = (html || '')
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&[a-z]+;|&#\d+;/gi, '');
+  return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+/**
+ * Number of pages in a PDF, read from the page tree's /Count (or by counting
+ * /Page objects). Returns null when the page tree is inside a compressed
+ * object stream and can't be read without a PDF library.
+ */
+export function countPdfPages(bytes: ArrayBuffer): number | null {
+  const text = new TextDecoder('latin1').decode(bytes);
+
+  // Nested page trees each carry a /Count; the root's is the largest
+  const counts = Array.from(text.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)|\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g))
+    .map(match => Number(match[1] ?? match[2]));
+  if (counts.length > 0) return Math.max(...counts);
+
+  const pages = text.match(/\/Type\s*\/Page\b/g);
+  return pages ? pages.length : null;
+}
+
+/**
+ * "3,200 words" / "24 pages", or null when the length is unknown
+ */
+export function formatReadingLength(reading: ReadingLength): string | null {
+  if (reading.readingWords) return `${reading.readingWords.toLocaleString('en-US')} words`;
+  if (reading.readingPages) return `${reading.readingPages} pages`;
+  return null;
+}
+
+/**
+ * Minutes to read, from whichever measurement is known; null when neither is
+ */
+export function getReadingMinutes(reading: ReadingLength): number | null {
+  if (reading.readingWords) return Math.ceil(reading.readingWords / READING_WORDS_PER_MINUTE);
+  if (reading.readingPages) return reading.readingPages * MINUTES_PER_PDF_PAGE;
+  return null;
+}